@@ -1,5 +1,11 @@
 import { Tabs } from 'expo-router';
-import { Clock, ListTodo, Settings, Chrome as Home } from 'lucide-react-native';
+import {
+  Clock,
+  ListTodo,
+  Settings,
+  ChartBar,
+  Chrome as Home,
+} from 'lucide-react-native';
 import { StyleSheet, Platform } from 'react-native';
 
 export default function () {
@@ -37,6 +43,15 @@ export default function () {
           ),
         }}
       />
+      <Tabs.Screen
+        name="stats"
+        options={{
+          title: 'Stats',
+          tabBarIcon: ({ color, size }) => (
+            <ChartBar size={size} color={color} />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="settings"
         options={{
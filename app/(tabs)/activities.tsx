@@ -7,17 +7,48 @@ import {
   ScrollView,
   Platform,
   Alert,
+  TextInput,
 } from 'react-native';
-import { Plus, X, Trash2, Settings } from 'lucide-react-native';
+import {
+  Plus,
+  X,
+  Trash2,
+  Settings,
+  Star,
+  Search,
+  GripVertical,
+  Eye,
+} from 'lucide-react-native';
+import {
+  NestableScrollContainer,
+  NestableDraggableFlatList,
+  ScaleDecorator,
+} from 'react-native-draggable-flatlist';
 import ActivityModal from '@/components/ActivityModal';
 import CategoryModal from '@/components/CategoryModal';
-import { StorageService, Activity, CustomCategory } from '@/utils/storage';
+import ReassignCategoryModal from '@/components/ReassignCategoryModal';
+import {
+  StorageService,
+  Activity,
+  CustomCategory,
+  DEFAULT_CATEGORIES,
+} from '@/utils/storage';
 
 function ActivitiesScreen() {
   const [activities, setActivities] = useState<Activity[]>([]);
   const [categories, setCategories] = useState<CustomCategory[]>([]);
   const [showActivityModal, setShowActivityModal] = useState(false);
+  const [editingActivity, setEditingActivity] = useState<Activity | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
   const [showCategoryModal, setShowCategoryModal] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<CustomCategory | null>(
+    null
+  );
+  const [hiddenCategoryIds, setHiddenCategoryIds] = useState<string[]>([]);
+  // A used category waiting for its activities to be moved elsewhere
+  const [reassigningCategory, setReassigningCategory] =
+    useState<CustomCategory | null>(null);
 
   useEffect(() => {
     loadData();
@@ -25,36 +56,116 @@ function ActivitiesScreen() {
 
   const loadData = async () => {
     try {
-      const [loadedActivities, loadedCategories] = await Promise.all([
-        StorageService.getActivities(),
-        StorageService.getAllCategories(),
-      ]);
+      const [loadedActivities, loadedCategories, loadedHiddenIds] =
+        await Promise.all([
+          StorageService.getActivities(),
+          StorageService.getAllCategories(),
+          StorageService.getHiddenCategories(),
+        ]);
       setActivities(loadedActivities);
       setCategories(loadedCategories);
+      setHiddenCategoryIds(loadedHiddenIds);
     } catch (error) {
       console.error('Error loading data:', error);
     }
   };
 
-  const addActivity = async (activity: Activity) => {
-    if (activities.length >= 20) {
-      if (Platform.OS === 'web') {
-        alert('Limit Reached\n\nYou can only have up to 20 activities.');
-      } else {
-        Alert.alert('Limit Reached', 'You can only have up to 20 activities.');
-      }
-      return;
-    }
+  // Adds a new activity or updates an existing one
+  const saveActivity = async (activity: Activity) => {
+    const exists = activities.some((a) => a.id === activity.id);
+    const newActivities = exists
+      ? activities.map((a) => (a.id === activity.id ? activity : a))
+      : [...activities, activity];
+    setActivities(newActivities);
+    await StorageService.saveActivities(newActivities);
+  };
+
+  const openEditor = (activity: Activity | null) => {
+    setEditingActivity(activity);
+    setShowActivityModal(true);
+  };
 
-    const newActivities = [...activities, activity];
+  // Puts a dragged group back into the slots it held, so activities in
+  // other categories or hidden by a search keep their places; the saved
+  // order is the order rewards are listed in
+  const reorderGroup = async (group: Activity[]) => {
+    const groupIds = group.map((activity) => activity.id);
+    let next = 0;
+    const reordered = activities.map((activity) =>
+      groupIds.includes(activity.id) ? group[next++] : activity
+    );
+    setActivities(reordered);
+    await StorageService.saveActivities(reordered);
+  };
+
+  const toggleFavorite = async (id: string) => {
+    const newActivities = activities.map((activity) =>
+      activity.id === id
+        ? { ...activity, favorite: !activity.favorite }
+        : activity
+    );
     setActivities(newActivities);
     await StorageService.saveActivities(newActivities);
   };
 
-  const addCategory = async (category: CustomCategory) => {
-    await StorageService.addCustomCategory(category);
-    const updatedCategories = await StorageService.getAllCategories();
+  const refreshCategories = async () => {
+    const [updatedCategories, updatedHiddenIds] = await Promise.all([
+      StorageService.getAllCategories(),
+      StorageService.getHiddenCategories(),
+    ]);
     setCategories(updatedCategories);
+    setHiddenCategoryIds(updatedHiddenIds);
+  };
+
+  // Adds a new custom category or updates an existing one
+  const saveCategory = async (category: CustomCategory) => {
+    if (categories.some((cat) => cat.id === category.id)) {
+      await StorageService.updateCustomCategory(category);
+    } else {
+      await StorageService.addCustomCategory(category);
+    }
+    await refreshCategories();
+  };
+
+  const openCategoryEditor = (category: CustomCategory | null) => {
+    setEditingCategory(category);
+    setShowCategoryModal(true);
+  };
+
+  // Default categories are hidden rather than deleted, so they can come back
+  const deleteCategory = async (category: CustomCategory) => {
+    if (category.isDefault) {
+      await StorageService.saveHiddenCategories([
+        ...hiddenCategoryIds,
+        category.id,
+      ]);
+    } else {
+      await StorageService.removeCustomCategory(category.id);
+    }
+    await refreshCategories();
+  };
+
+  const restoreCategory = async (categoryId: string) => {
+    await StorageService.saveHiddenCategories(
+      hiddenCategoryIds.filter((id) => id !== categoryId)
+    );
+    await refreshCategories();
+  };
+
+  // Moves every activity out of the category, then deletes or hides it
+  const reassignAndDelete = async (targetId: string) => {
+    const category = reassigningCategory;
+    if (!category) return;
+
+    const newActivities = activities.map((activity) =>
+      (activity.category || 'other') === category.id
+        ? { ...activity, category: targetId }
+        : activity
+    );
+    setActivities(newActivities);
+    await StorageService.saveActivities(newActivities);
+    await deleteCategory(category);
+    setReassigningCategory(null);
   };
 
   const removeActivity = async (id: string) => {
@@ -85,48 +196,50 @@ function ActivitiesScreen() {
   };
 
   const removeCategory = async (categoryId: string) => {
-    // Check if category is being used by any activities
-    const isUsed = activities.some(
-      (activity) => activity.category === categoryId
-    );
+    const category = getCategoryInfo(categoryId);
+    const action = category.isDefault ? 'Hide' : 'Remove';
 
-    if (isUsed) {
+    // Activities always need somewhere to go
+    if (categories.length <= 1) {
       if (Platform.OS === 'web') {
         alert(
-          'Cannot Remove Category\n\nThis category is being used by one or more activities. Please remove or reassign those activities first.'
+          `Cannot ${action} Category\n\nKeep at least one category for your activities.`
         );
       } else {
         Alert.alert(
-          'Cannot Remove Category',
-          'This category is being used by one or more activities. Please remove or reassign those activities first.'
+          `Cannot ${action} Category`,
+          'Keep at least one category for your activities.'
         );
       }
       return;
     }
 
-    const confirmRemove = async () => {
-      await StorageService.removeCustomCategory(categoryId);
-      const updatedCategories = await StorageService.getAllCategories();
-      setCategories(updatedCategories);
-    };
+    const isUsed = activities.some(
+      (activity) => (activity.category || 'other') === categoryId
+    );
+    if (isUsed) {
+      setReassigningCategory(category);
+      return;
+    }
+
+    const message = category.isDefault
+      ? 'Hide this category? You can show it again later.'
+      : 'Are you sure you want to remove this category?';
+    const confirmRemove = () => deleteCategory(category);
 
     if (Platform.OS === 'web') {
-      if (confirm('Are you sure you want to remove this category?')) {
+      if (confirm(message)) {
         confirmRemove();
       }
     } else {
-      Alert.alert(
-        'Remove Category',
-        'Are you sure you want to remove this category?',
-        [
-          { text: 'Cancel', style: 'cancel' },
-          {
-            text: 'Remove',
-            style: 'destructive',
-            onPress: confirmRemove,
-          },
-        ]
-      );
+      Alert.alert(`${action} Category`, message, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: action,
+          style: 'destructive',
+          onPress: confirmRemove,
+        },
+      ]);
     }
   };
 
@@ -160,15 +273,6 @@ function ActivitiesScreen() {
     }
   };
 
-  const groupedActivities = activities.reduce((groups, activity) => {
-    const category = activity.category || 'other';
-    if (!groups[category]) {
-      groups[category] = [];
-    }
-    groups[category].push(activity);
-    return groups;
-  }, {} as Record<string, Activity[]>);
-
   const getCategoryInfo = (categoryId: string) => {
     return (
       categories.find((cat) => cat.id === categoryId) || {
@@ -181,6 +285,38 @@ function ActivitiesScreen() {
     );
   };
 
+  const usedCategoryIds = categories
+    .map((category) => category.id)
+    .filter((id) =>
+      activities.some((activity) => (activity.category || 'other') === id)
+    );
+  // A filter on a category whose last activity is gone no longer applies
+  const activeFilter =
+    categoryFilter && usedCategoryIds.includes(categoryFilter)
+      ? categoryFilter
+      : null;
+  const query = searchQuery.trim().toLowerCase();
+  const isFiltering = query.length > 0 || activeFilter !== null;
+  const filteredActivities = activities.filter(
+    (activity) =>
+      (activeFilter === null ||
+        (activity.category || 'other') === activeFilter) &&
+      (query.length === 0 ||
+        activity.name.toLowerCase().includes(query) ||
+        getCategoryInfo(activity.category || 'other')
+          .name.toLowerCase()
+          .includes(query))
+  );
+
+  const groupedActivities = filteredActivities.reduce((groups, activity) => {
+    const category = activity.category || 'other';
+    if (!groups[category]) {
+      groups[category] = [];
+    }
+    groups[category].push(activity);
+    return groups;
+  }, {} as Record<string, Activity[]>);
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -192,12 +328,8 @@ function ActivitiesScreen() {
 
       <View style={styles.buttonRow}>
         <TouchableOpacity
-          style={[
-            styles.addButton,
-            activities.length >= 20 && styles.addButtonDisabled,
-          ]}
-          onPress={() => setShowActivityModal(true)}
-          disabled={activities.length >= 20}
+          style={styles.addButton}
+          onPress={() => openEditor(null)}
         >
           <Plus size={20} color="#FFFFFF" />
           <Text style={styles.addButtonText}>Add Activity</Text>
@@ -205,7 +337,7 @@ function ActivitiesScreen() {
 
         <TouchableOpacity
           style={styles.categoryButton}
-          onPress={() => setShowCategoryModal(true)}
+          onPress={() => openCategoryEditor(null)}
         >
           <Settings size={20} color="#7C3AED" />
           <Text style={styles.categoryButtonText}>Categories</Text>
@@ -214,7 +346,13 @@ function ActivitiesScreen() {
 
       {activities.length > 0 && (
         <View style={styles.headerActions}>
-          <Text style={styles.counter}>{activities.length}/20 activities</Text>
+          <Text style={styles.counter}>
+            {isFiltering
+              ? `${filteredActivities.length} of ${activities.length} activities`
+              : `${activities.length} ${
+                  activities.length === 1 ? 'activity' : 'activities'
+                }`}
+          </Text>
           <TouchableOpacity
             onPress={clearAllActivities}
             style={styles.clearButton}
@@ -225,7 +363,62 @@ function ActivitiesScreen() {
         </View>
       )}
 
-      <ScrollView
+      {activities.length > 0 && (
+        <View style={styles.filters}>
+          <View style={styles.searchBox}>
+            <Search size={18} color="#9CA3AF" />
+            <TextInput
+              style={styles.searchInput}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              placeholder="Search activities..."
+              placeholderTextColor="#9CA3AF"
+              returnKeyType="search"
+            />
+            {searchQuery.length > 0 && (
+              <TouchableOpacity onPress={() => setSearchQuery('')}>
+                <X size={18} color="#9CA3AF" />
+              </TouchableOpacity>
+            )}
+          </View>
+          {usedCategoryIds.length > 1 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.filterChips}
+            >
+              {[null, ...usedCategoryIds].map((categoryId) => {
+                const isSelected = activeFilter === categoryId;
+                return (
+                  <TouchableOpacity
+                    key={categoryId ?? 'all'}
+                    style={[
+                      styles.filterChip,
+                      isSelected && styles.filterChipSelected,
+                    ]}
+                    onPress={() => setCategoryFilter(categoryId)}
+                  >
+                    <Text
+                      style={[
+                        styles.filterChipText,
+                        isSelected && styles.filterChipTextSelected,
+                      ]}
+                    >
+                      {categoryId === null
+                        ? 'All'
+                        : `${getCategoryInfo(categoryId).emoji} ${
+                            getCategoryInfo(categoryId).name
+                          }`}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+        </View>
+      )}
+
+      <NestableScrollContainer
         style={styles.activitiesList}
         showsVerticalScrollIndicator={false}
       >
@@ -238,6 +431,12 @@ function ActivitiesScreen() {
               end.
             </Text>
           </View>
+        ) : filteredActivities.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyDescription}>
+              No activities match your search.
+            </Text>
+          </View>
         ) : (
           Object.entries(groupedActivities).map(
             ([categoryKey, categoryActivities]) => {
@@ -255,32 +454,67 @@ function ActivitiesScreen() {
                     <Text style={styles.categoryCount}>
                       ({categoryActivities.length})
                     </Text>
-                    {!categoryInfo.isDefault && (
-                      <TouchableOpacity
-                        style={styles.removeCategoryButton}
-                        onPress={() => removeCategory(categoryInfo.id)}
-                      >
-                        <X size={16} color="#EF4444" />
-                      </TouchableOpacity>
-                    )}
+                    <TouchableOpacity
+                      style={styles.removeCategoryButton}
+                      onPress={() => removeCategory(categoryInfo.id)}
+                    >
+                      <X size={16} color="#EF4444" />
+                    </TouchableOpacity>
                   </View>
 
-                  {categoryActivities.map((activity) => (
-                    <View key={activity.id} style={styles.activityItem}>
-                      <View style={styles.activityContent}>
-                        <Text style={styles.activityEmoji}>
-                          {activity.emoji}
-                        </Text>
-                        <Text style={styles.activityText}>{activity.name}</Text>
-                      </View>
-                      <TouchableOpacity
-                        style={styles.removeButton}
-                        onPress={() => removeActivity(activity.id)}
-                      >
-                        <X size={20} color="#EF4444" />
-                      </TouchableOpacity>
-                    </View>
-                  ))}
+                  <NestableDraggableFlatList
+                    data={categoryActivities}
+                    keyExtractor={(activity) => activity.id}
+                    onDragEnd={({ data }) => reorderGroup(data)}
+                    renderItem={({ item: activity, drag, isActive }) => (
+                      <ScaleDecorator>
+                        <View
+                          style={[
+                            styles.activityItem,
+                            isActive && styles.activityItemDragging,
+                          ]}
+                        >
+                          {categoryActivities.length > 1 && (
+                            <TouchableOpacity
+                              style={styles.dragHandle}
+                              onPressIn={drag}
+                              disabled={isActive}
+                            >
+                              <GripVertical size={18} color="#9CA3AF" />
+                            </TouchableOpacity>
+                          )}
+                          <TouchableOpacity
+                            style={styles.activityContent}
+                            onPress={() => openEditor(activity)}
+                            onLongPress={drag}
+                          >
+                            <Text style={styles.activityEmoji}>
+                              {activity.emoji}
+                            </Text>
+                            <Text style={styles.activityText}>
+                              {activity.name}
+                            </Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            style={styles.favoriteButton}
+                            onPress={() => toggleFavorite(activity.id)}
+                          >
+                            <Star
+                              size={20}
+                              color={activity.favorite ? '#F59E0B' : '#D1D5DB'}
+                              fill={activity.favorite ? '#F59E0B' : 'none'}
+                            />
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            style={styles.removeButton}
+                            onPress={() => removeActivity(activity.id)}
+                          >
+                            <X size={20} color="#EF4444" />
+                          </TouchableOpacity>
+                        </View>
+                      </ScaleDecorator>
+                    )}
+                  />
                 </View>
               );
             }
@@ -291,15 +525,22 @@ function ActivitiesScreen() {
         <View style={styles.categoriesSection}>
           <Text style={styles.categoriesSectionTitle}>Your Categories</Text>
           <Text style={styles.categoriesSectionDesc}>
-            Manage your custom categories. Default categories cannot be removed.
+            Tap a custom category to edit it. Default categories can be hidden
+            and shown again later.
           </Text>
 
           <View style={styles.categoriesGrid}>
             {categories.map((category) => (
               <View key={category.id} style={styles.categoryCard}>
-                <Text style={styles.categoryCardEmoji}>{category.emoji}</Text>
-                <Text style={styles.categoryCardName}>{category.name}</Text>
-                {!category.isDefault && (
+                <TouchableOpacity
+                  style={styles.categoryCardContent}
+                  onPress={() => openCategoryEditor(category)}
+                  disabled={category.isDefault}
+                >
+                  <Text style={styles.categoryCardEmoji}>{category.emoji}</Text>
+                  <Text style={styles.categoryCardName}>{category.name}</Text>
+                </TouchableOpacity>
+                {categories.length > 1 && (
                   <TouchableOpacity
                     style={styles.removeCategoryCardButton}
                     onPress={() => removeCategory(category.id)}
@@ -310,19 +551,58 @@ function ActivitiesScreen() {
               </View>
             ))}
           </View>
+
+          {hiddenCategoryIds.length > 0 && (
+            <>
+              <Text style={styles.hiddenCategoriesTitle}>Hidden</Text>
+              <View style={styles.categoriesGrid}>
+                {DEFAULT_CATEGORIES.filter((category) =>
+                  hiddenCategoryIds.includes(category.id)
+                ).map((category) => (
+                  <TouchableOpacity
+                    key={category.id}
+                    style={[styles.categoryCard, styles.hiddenCategoryCard]}
+                    onPress={() => restoreCategory(category.id)}
+                  >
+                    <Text style={styles.categoryCardEmoji}>
+                      {category.emoji}
+                    </Text>
+                    <Text style={styles.categoryCardName}>{category.name}</Text>
+                    <Eye size={14} color="#6B7280" />
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
         </View>
-      </ScrollView>
+      </NestableScrollContainer>
 
       <ActivityModal
         visible={showActivityModal}
+        activity={editingActivity}
         onClose={() => setShowActivityModal(false)}
-        onAdd={addActivity}
+        onSave={saveActivity}
       />
 
       <CategoryModal
         visible={showCategoryModal}
+        category={editingCategory}
         onClose={() => setShowCategoryModal(false)}
-        onAdd={addCategory}
+        onSave={saveCategory}
+      />
+
+      <ReassignCategoryModal
+        visible={reassigningCategory !== null}
+        category={reassigningCategory}
+        activityCount={
+          activities.filter(
+            (activity) =>
+              (activity.category || 'other') === reassigningCategory?.id
+          ).length
+        }
+        categories={categories}
+        onConfirm={reassignAndDelete}
+        onClose={() => setReassigningCategory(null)}
       />
     </View>
   );
@@ -371,10 +651,6 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 6,
   },
-  addButtonDisabled: {
-    backgroundColor: '#9CA3AF',
-    shadowColor: '#9CA3AF',
-  },
   addButtonText: {
     fontFamily: 'Inter-Bold',
     fontSize: 16,
@@ -422,6 +698,50 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#EF4444',
   },
+  filters: {
+    gap: 12,
+    marginBottom: 16,
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingHorizontal: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: '#1F2937',
+  },
+  filterChips: {
+    gap: 8,
+  },
+  filterChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  filterChipSelected: {
+    backgroundColor: '#F5F3FF',
+    borderColor: '#7C3AED',
+  },
+  filterChipText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#4B5563',
+  },
+  filterChipTextSelected: {
+    color: '#7C3AED',
+  },
   activitiesList: {
     flex: 1,
   },
@@ -505,6 +825,20 @@ const styles = StyleSheet.create({
     color: '#1F2937',
     lineHeight: 22,
   },
+  activityItemDragging: {
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+  },
+  dragHandle: {
+    paddingVertical: 4,
+    paddingRight: 8,
+  },
+  favoriteButton: {
+    padding: 8,
+    marginRight: 8,
+    borderRadius: 8,
+    backgroundColor: '#FFFBEB',
+  },
   removeButton: {
     padding: 8,
     borderRadius: 8,
@@ -544,6 +878,20 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     position: 'relative',
   },
+  categoryCardContent: {
+    alignItems: 'center',
+  },
+  hiddenCategoryCard: {
+    backgroundColor: '#F3F4F6',
+    gap: 6,
+  },
+  hiddenCategoriesTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 20,
+    marginBottom: 12,
+  },
   categoryCardEmoji: {
     fontSize: 32,
     marginBottom: 8,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   View,
   Text,
@@ -10,87 +10,256 @@ import {
   Alert,
   Dimensions,
   AppState,
+  AppStateStatus,
+  Switch,
+  ScrollView,
 } from 'react-native';
-import { Play, Pause, RefreshCw } from 'lucide-react-native';
+import {
+  Play,
+  Pause,
+  RefreshCw,
+  SlidersHorizontal,
+  History,
+  ListTodo,
+  Plus,
+  X,
+  Circle,
+  CircleCheck,
+  Flag,
+  Hourglass,
+  NotebookPen,
+} from 'lucide-react-native';
+import { router, useFocusEffect } from 'expo-router';
 import { activateKeepAwakeAsync, deactivateKeepAwake } from 'expo-keep-awake';
-import * as BackgroundFetch from 'expo-background-fetch';
-import * as TaskManager from 'expo-task-manager';
 import TimerDisplay from '@/components/TimerDisplay';
 import DurationSelector from '@/components/DurationSelector';
-import BreakModal from '@/components/BreakModal';
-import { StorageService, Activity } from '@/utils/storage';
+import BreakModal, { BREAK_EXTEND_MINUTES } from '@/components/BreakModal';
+import SessionCompleteModal from '@/components/SessionCompleteModal';
+import ParkingLotModal from '@/components/ParkingLotModal';
+import ReflectionModal from '@/components/ReflectionModal';
+import CheckInModal from '@/components/CheckInModal';
+import CycleSettingsModal from '@/components/CycleSettingsModal';
+import TaskPickerModal from '@/components/TaskPickerModal';
+import DurationPresetsModal from '@/components/DurationPresetsModal';
+import {
+  StorageService,
+  Activity,
+  TimerState,
+  CycleSettings,
+  DEFAULT_CYCLE_SETTINGS,
+  BreakSettings,
+  DEFAULT_BREAK_SETTINGS,
+  ActiveSession,
+  SessionOutcome,
+  Task,
+  DurationPreset,
+  DEFAULT_DURATION_PRESETS,
+  FlowSettings,
+  DEFAULT_FLOW_SETTINGS,
+  TimerDisplaySettings,
+  DEFAULT_TIMER_DISPLAY_SETTINGS,
+  IntervalCues,
+  ParkedThought,
+  WarningSettings,
+  DEFAULT_WARNING_SETTINGS,
+  ReflectionSettings,
+  DEFAULT_REFLECTION_SETTINGS,
+  SessionReflection,
+  CheckInSettings,
+  DEFAULT_CHECK_IN_SETTINGS,
+  SessionCheckIn,
+  PauseReason,
+  LeaveNudgeSettings,
+  DEFAULT_LEAVE_NUDGE_SETTINGS,
+} from '@/utils/storage';
 import { AudioService, SoundOption, DEFAULT_SOUNDS } from '@/utils/audio';
-import { vibrateOnComplete } from '@/utils/vibration';
+import {
+  NotificationService,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_EXTEND_MINUTES,
+  SessionAction,
+} from '@/utils/notifications';
+import {
+  vibrateOnComplete,
+  vibrateCue,
+  vibrateWarning,
+} from '@/utils/vibration';
+import { TimerEngine, TimerMode, TimerSnapshot } from '@/utils/timer';
+import { useTimer } from '@/hooks/useTimer';
+import {
+  CycleProgress,
+  CYCLE_PHASE_LABELS,
+  INITIAL_CYCLE_PROGRESS,
+  getNextCycleProgress,
+  getPhaseMinutes,
+  isBreakPhase,
+} from '@/utils/cycle';
+import {
+  PAUSE_REASON_LABELS,
+  addParkedThought,
+  createActiveSession,
+  finishSession,
+  removeParkedThought,
+  recordCheckIn,
+  recordDistraction,
+  recordPause,
+  recordResume,
+  setPauseReason,
+} from '@/utils/sessions';
+import { GoalStatus, getGoalStatus } from '@/utils/goals';
+import {
+  createTask,
+  formatTaskProgress,
+  getSubtasksCompletedSince,
+  toggleSubtask,
+} from '@/utils/tasks';
+import { formatDurationLabel, getPresetLabel } from '@/utils/durations';
+import { CueKind, getDueCue, getDueWarning } from '@/utils/cues';
+import {
+  hasRewardAlternatives,
+  pickReward,
+  rememberReward,
+} from '@/utils/rewards';
 
 const { width } = Dimensions.get('window');
 
-// Background task for timer
-const BACKGROUND_TIMER_TASK = 'background-timer-task';
-
-TaskManager.defineTask(BACKGROUND_TIMER_TASK, async ({ data, error }) => {
-  if (error) {
-    console.error('Background timer task error:', error);
-    return;
-  }
-
-  try {
-    // This task will keep the timer running in background
-    return BackgroundFetch.BackgroundFetchResult.NewData;
-  } catch (error) {
-    console.error('Background timer task execution error:', error);
-    return BackgroundFetch.BackgroundFetchResult.Failed;
-  }
-});
-
 function FocusScreen() {
   const [task, setTask] = useState('');
-  const [timeLeft, setTimeLeft] = useState(25 * 60);
-  const [isRunning, setIsRunning] = useState(false);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const [showTaskPicker, setShowTaskPicker] = useState(false);
+  const [timer] = useState(() => new TimerEngine(25 * 60 * 1000));
+  const { status, endTime, startTime, duration, overtime } = useTimer(timer);
+  const isRunning = status === 'running';
+  const isSessionActive = status === 'running' || status === 'paused';
+  // undefined until storage has been read, null when there was no session
+  const [restoredState, setRestoredState] = useState<
+    TimerState | null | undefined
+  >(undefined);
+  const [isSessionRestored, setIsSessionRestored] = useState(false);
   const [selectedDuration, setSelectedDuration] = useState(25);
+  // Several presets can share a length, so the chip's id is kept as well
+  const [selectedPresetId, setSelectedPresetId] = useState<string | null>(null);
+  const [durationPresets, setDurationPresets] = useState<DurationPreset[]>(
+    DEFAULT_DURATION_PRESETS
+  );
+  const [showDurationPresets, setShowDurationPresets] = useState(false);
+  const [flowSettings, setFlowSettings] = useState<FlowSettings>(
+    DEFAULT_FLOW_SETTINGS
+  );
+  const [displaySettings, setDisplaySettings] = useState<TimerDisplaySettings>(
+    DEFAULT_TIMER_DISPLAY_SETTINGS
+  );
+  const [warningSettings, setWarningSettings] = useState<WarningSettings>(
+    DEFAULT_WARNING_SETTINGS
+  );
+  const [warningMessage, setWarningMessage] = useState<string | null>(null);
+  const [showParkingLot, setShowParkingLot] = useState(false);
+  // Thoughts parked during the last completed session, awaiting review
+  const [reviewThoughts, setReviewThoughts] = useState<ParkedThought[]>([]);
+  const [reflectionSettings, setReflectionSettings] =
+    useState<ReflectionSettings>(DEFAULT_REFLECTION_SETTINGS);
+  const [showReflection, setShowReflection] = useState(false);
+  // Where the completion flow picks up once the reflection is done
+  const afterReflectionRef = useRef<() => void>(() => {});
+  // Runs once the break sheet has closed on iOS
+  const afterBreakModalRef = useRef<() => void>(() => {});
+  // Runs once the extend/overtime/finish sheet has closed on iOS
+  const afterCompletionChoiceRef = useRef<() => void>(() => {});
+  const [checkInSettings, setCheckInSettings] = useState<CheckInSettings>(
+    DEFAULT_CHECK_IN_SETTINGS
+  );
+  const [showCheckIn, setShowCheckIn] = useState(false);
+  const [leaveNudgeSettings, setLeaveNudgeSettings] =
+    useState<LeaveNudgeSettings>(DEFAULT_LEAVE_NUDGE_SETTINGS);
   const [activities, setActivities] = useState<Activity[]>([]);
+  const [recentRewardIds, setRecentRewardIds] = useState<string[]>([]);
   const [showBreakModal, setShowBreakModal] = useState(false);
+  const [showCompletionChoice, setShowCompletionChoice] = useState(false);
   const [currentActivity, setCurrentActivity] = useState<Activity | null>(null);
   const [backgroundImage, setBackgroundImage] = useState<string | null>(null);
   const [selectedSound, setSelectedSound] = useState<SoundOption | null>(null);
+  const [cycleSettings, setCycleSettings] = useState<CycleSettings>(
+    DEFAULT_CYCLE_SETTINGS
+  );
+  const [cycleProgress, setCycleProgress] = useState<CycleProgress>(
+    INITIAL_CYCLE_PROGRESS
+  );
+  const [showCycleSettings, setShowCycleSettings] = useState(false);
+  const [breakSettings, setBreakSettings] = useState<BreakSettings>(
+    DEFAULT_BREAK_SETTINGS
+  );
+  const [goalStatus, setGoalStatus] = useState<GoalStatus | null>(null);
+  const [isBreakOver, setIsBreakOver] = useState(false);
+  const [activeSession, setActiveSession] = useState<ActiveSession | null>(
+    null
+  );
+  // The last recorded session, so a re-rolled reward can be saved with it
+  const [lastSessionId, setLastSessionId] = useState<string | null>(null);
+  const [lastCompletedSubtasks, setLastCompletedSubtasks] = useState<string[]>(
+    []
+  );
+
+  // These settings are edited on the Settings and Activities tabs, so pick
+  // up changes whenever this tab comes back into view
+  useFocusEffect(
+    useCallback(() => {
+      StorageService.getActivities().then(setActivities);
+      StorageService.getBreakSettings().then(setBreakSettings);
+      StorageService.getTimerDisplaySettings().then(setDisplaySettings);
+      StorageService.getWarningSettings().then(setWarningSettings);
+      StorageService.getReflectionSettings().then(setReflectionSettings);
+      StorageService.getCheckInSettings().then(setCheckInSettings);
+      StorageService.getLeaveNudgeSettings().then(setLeaveNudgeSettings);
+    }, [])
+  );
 
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const appState = useRef(AppState.currentState);
-  const backgroundStartTime = useRef<number | null>(null);
-
-  const durations = [
-    { label: '30s', value: 0.5 },
-    { label: '1m', value: 1 },
-    { label: '5m', value: 5 },
-    { label: '10m', value: 10 },
-    { label: '15m', value: 15 },
-    { label: '25m', value: 25 },
-    { label: '30m', value: 30 },
-    { label: '45m', value: 45 },
-    { label: '60m', value: 60 },
-  ];
+  // Timer listeners are registered once; they call through these refs so
+  // they always see the latest state instead of a stale closure.
+  const onCompleteRef = useRef<() => void>(() => {});
+  const onTickRef = useRef<(snapshot: TimerSnapshot) => void>(() => {});
+  // Readings from the previous tick, used to spot cue and warning moments
+  const cueElapsedRef = useRef(0);
+  const warningRemainingRef = useRef(0);
+  const onTargetRef = useRef<() => void>(() => {});
+  const onLeaveAppRef = useRef<() => void>(() => {});
+  const onNotificationActionRef = useRef<(action: SessionAction) => void>(
+    () => {}
+  );
+  // A notification action that arrived before the app caught up with the
+  // end of the countdown; completion picks it up instead of asking
+  const pendingEndActionRef = useRef<SessionAction | null>(null);
+  // A notification action that arrived before the saved session was
+  // restored, including the one that launched the app
+  const queuedActionRef = useRef<SessionAction | null>(null);
 
   useEffect(() => {
     loadData();
 
-    // Register background task
-    if (Platform.OS !== 'web') {
-      BackgroundFetch.registerTaskAsync(BACKGROUND_TIMER_TASK, {
-        minimumInterval: 1000, // 1 second
-        stopOnTerminate: false,
-        startOnBoot: true,
-      }).catch(console.error);
-    }
-
     // Handle app state changes
     const subscription = AppState.addEventListener(
       'change',
       handleAppStateChange
     );
 
+    const unsubscribeComplete = timer.on('complete', () =>
+      onCompleteRef.current()
+    );
+    const unsubscribeTick = timer.on('tick', (snapshot) =>
+      onTickRef.current(snapshot)
+    );
+    const unsubscribeTarget = timer.on('target', () => onTargetRef.current());
+    const actionSubscription = NotificationService.addActionListener((action) =>
+      onNotificationActionRef.current(action)
+    );
+
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
+      unsubscribeComplete();
+      unsubscribeTick();
+      unsubscribeTarget();
+      actionSubscription.remove();
+      timer.destroy();
       if (Platform.OS !== 'web') {
         deactivateKeepAwake();
       }
@@ -98,84 +267,201 @@ function FocusScreen() {
     };
   }, []);
 
-  const handleAppStateChange = (nextAppState: string) => {
+  const handleAppStateChange = (nextAppState: AppStateStatus) => {
     if (
       appState.current.match(/inactive|background/) &&
       nextAppState === 'active'
     ) {
-      // App has come to the foreground
-      if (isRunning && backgroundStartTime.current) {
-        const timeInBackground = Math.floor(
-          (Date.now() - backgroundStartTime.current) / 1000
-        );
-        setTimeLeft((prevTime) => {
-          const newTime = Math.max(0, prevTime - timeInBackground);
-          if (newTime <= 0) {
-            handleTimerComplete();
-          }
-          return newTime;
-        });
-      }
-      backgroundStartTime.current = null;
-    } else if (nextAppState.match(/inactive|background/) && isRunning) {
-      // App is going to background
-      backgroundStartTime.current = Date.now();
+      // App has come to the foreground - the engine works from the end
+      // timestamp, so it only needs to re-check the clock
+      timer.sync();
+      NotificationService.cancelLeaveNudge();
+    } else if (
+      appState.current.match(/active|inactive/) &&
+      nextAppState === 'background'
+    ) {
+      // iOS passes through inactive on the way out, Android does not
+      onLeaveAppRef.current();
     }
 
     appState.current = nextAppState;
   };
 
+  // Resume a session that was active when the app was closed. This runs
+  // after the loaded task, sound and activities have been rendered so an
+  // immediate completion sees them.
   useEffect(() => {
-    if (isRunning && timeLeft > 0) {
-      if (Platform.OS !== 'web') {
-        activateKeepAwakeAsync();
-      }
+    if (restoredState === undefined) return;
 
-      intervalRef.current = setInterval(() => {
-        setTimeLeft((prevTime) => {
-          const newTime = prevTime - 1;
-          if (newTime <= 0) {
-            handleTimerComplete();
-            return 0;
-          }
-          if (newTime === 3 && selectedSound) {
-            // Preload sound 3 seconds before timer ends
-            AudioService.preloadSound(selectedSound);
-          }
-          return newTime;
-        });
-      }, 1000);
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
+    if (restoredState) {
+      // An end action is carried out by the completion the restore
+      // triggers when the countdown ran out while the app was closed
+      const queuedAction = queuedActionRef.current;
+      if (queuedAction === 'extend' || queuedAction === 'startBreak') {
+        pendingEndActionRef.current = queuedAction;
+        queuedActionRef.current = null;
       }
-      if (Platform.OS !== 'web') {
-        deactivateKeepAwake();
+      timer.restore(restoredState);
+      if (timer.getStatus() === 'running') {
+        pendingEndActionRef.current = null;
       }
     }
+    setIsSessionRestored(true);
+  }, [restoredState, timer]);
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, [isRunning, timeLeft]);
+  // Pause and stop need the restored session in place
+  useEffect(() => {
+    if (!isSessionRestored) return;
+
+    const queuedAction = queuedActionRef.current;
+    queuedActionRef.current = null;
+    if (queuedAction) {
+      onNotificationActionRef.current(queuedAction);
+    }
+  }, [isSessionRestored]);
+
+  // Keep the persisted session in step with the engine
+  useEffect(() => {
+    if (!isSessionRestored) return;
+
+    const snapshot = timer.getSnapshot();
+    if (snapshot.status === 'running' || snapshot.status === 'paused') {
+      const isPaused = snapshot.status === 'paused';
+      StorageService.saveTimerState({
+        task,
+        taskId: selectedTaskId ?? undefined,
+        mode: snapshot.mode,
+        duration: snapshot.duration,
+        endTime: snapshot.endTime,
+        pausedRemaining:
+          isPaused && snapshot.mode === 'countdown' ? snapshot.remaining : null,
+        startTime: snapshot.startTime,
+        pausedElapsed:
+          isPaused && snapshot.mode === 'countUp' ? snapshot.elapsed : null,
+        overtime: snapshot.overtime || undefined,
+        plannedMinutes: selectedDuration,
+        presetId: selectedPresetId ?? undefined,
+        selectedSound,
+        cycle: cycleProgress,
+        session: activeSession ?? undefined,
+      });
+    } else if (snapshot.status !== 'completed' || !activeSession) {
+      // A finished focus is only logged once the user picks what comes
+      // next, so until then the last saved state stays and brings the
+      // prompt back after a restart
+      StorageService.clearTimerState();
+    }
+  }, [
+    isSessionRestored,
+    status,
+    endTime,
+    startTime,
+    duration,
+    cycleProgress,
+    activeSession,
+    selectedDuration,
+    selectedPresetId,
+    task,
+    selectedTaskId,
+    selectedSound,
+    timer,
+  ]);
+
+  // Keep the end-of-session notification in step with the countdown, so
+  // the end is announced even when the screen is locked. Pausing, resetting
+  // and extending all change or clear the end time.
+  useEffect(() => {
+    if (!isSessionRestored) return;
+
+    if (status === 'running' && endTime !== null) {
+      const isBreakEnd = isBreakPhase(cycleProgress.phase);
+      NotificationService.scheduleSessionEnd(
+        endTime,
+        isBreakEnd
+          ? {
+              title: "Break's over",
+              body: task.trim()
+                ? `Ready to get back to ${task.trim()}?`
+                : 'Ready for the next focus session?',
+            }
+          : {
+              title: 'Focus session complete!',
+              body: task.trim()
+                ? `Nice work on ${task.trim()}. Time for a break.`
+                : 'Nice work. Time for a break.',
+              categoryIdentifier: NOTIFICATION_CATEGORIES.focusEnd,
+            },
+        selectedSound
+      );
+    } else {
+      NotificationService.cancelSessionEnd();
+    }
+  }, [
+    isSessionRestored,
+    status,
+    endTime,
+    cycleProgress.phase,
+    task,
+    selectedSound,
+  ]);
+
+  useEffect(() => {
+    if (Platform.OS === 'web') return;
+
+    if (isRunning) {
+      activateKeepAwakeAsync();
+    } else {
+      deactivateKeepAwake();
+    }
+  }, [isRunning]);
+
+  // A warning only makes sense while its countdown is still going
+  useEffect(() => {
+    if (!isSessionActive) {
+      setWarningMessage(null);
+    }
+  }, [isSessionActive]);
 
   const loadData = async () => {
     try {
       console.log('🔄 Loading focus screen data...');
 
-      const [loadedActivities, loadedBackground, loadedSound, customSounds] =
-        await Promise.all([
-          StorageService.getActivities(),
-          StorageService.getBackgroundImage(),
-          StorageService.getSelectedSound(),
-          StorageService.getCustomSounds(),
-        ]);
+      const [
+        loadedActivities,
+        loadedBackground,
+        loadedSound,
+        customSounds,
+        savedTimerState,
+        loadedCycleSettings,
+        loadedBreakSettings,
+        loadedTasks,
+        loadedDurationPresets,
+        loadedFlowSettings,
+        loadedRecentRewards,
+        launchAction,
+      ] = await Promise.all([
+        StorageService.getActivities(),
+        StorageService.getBackgroundImage(),
+        StorageService.getSelectedSound(),
+        StorageService.getCustomSounds(),
+        StorageService.getTimerState(),
+        StorageService.getCycleSettings(),
+        StorageService.getBreakSettings(),
+        StorageService.getTasks(),
+        StorageService.getDurationPresets(),
+        StorageService.getFlowSettings(),
+        StorageService.getRecentRewards(),
+        NotificationService.getLaunchAction(),
+      ]);
 
       setActivities(loadedActivities);
+      setRecentRewardIds(loadedRecentRewards);
+      setTasks(loadedTasks);
+      setDurationPresets(loadedDurationPresets);
+      setFlowSettings(loadedFlowSettings);
       setBackgroundImage(loadedBackground);
+      setCycleSettings(loadedCycleSettings);
+      setBreakSettings(loadedBreakSettings);
 
       console.log('🔊 Loaded sound from storage:', loadedSound);
       console.log('🎵 Available custom sounds:', customSounds);
@@ -207,20 +493,432 @@ function FocusScreen() {
           setSelectedSound(DEFAULT_SOUNDS[0] || null);
         }
       }
+
+      if (savedTimerState) {
+        // The session keeps the task and sound it was started with
+        setTask(savedTimerState.task);
+        setSelectedTaskId(savedTimerState.taskId ?? null);
+        // Breaks and extensions change the running duration, not the
+        // focus length the user picked
+        const isFocusPhase =
+          !savedTimerState.cycle || !isBreakPhase(savedTimerState.cycle.phase);
+        if (savedTimerState.mode !== 'countUp' && isFocusPhase) {
+          setSelectedDuration(
+            savedTimerState.plannedMinutes ??
+              savedTimerState.duration / (60 * 1000)
+          );
+          setSelectedPresetId(savedTimerState.presetId ?? null);
+        }
+        if (savedTimerState.selectedSound) {
+          setSelectedSound(savedTimerState.selectedSound);
+        }
+        if (savedTimerState.cycle) {
+          setCycleProgress(savedTimerState.cycle);
+        }
+        if (savedTimerState.session) {
+          setActiveSession(savedTimerState.session);
+        }
+      } else if (loadedCycleSettings.enabled) {
+        timer.reset(loadedCycleSettings.focusMinutes * 60 * 1000);
+      } else if (loadedFlowSettings.enabled) {
+        timer.reset(
+          (loadedFlowSettings.targetMinutes ?? 0) * 60 * 1000,
+          'countUp'
+        );
+      }
+      queuedActionRef.current = queuedActionRef.current ?? launchAction;
+      setRestoredState(savedTimerState);
     } catch (error) {
       console.error('❌ Error loading focus data:', error);
+      setRestoredState(null);
     }
   };
 
+  // Breaks use the activity's own length when it has one, long breaks
+  // included; otherwise the cycle or default break settings apply.
+  const getPlannedMinutes = (
+    progress: CycleProgress,
+    activity: Activity | null
+  ): number => {
+    if (isBreakPhase(progress.phase) && activity?.breakMinutes) {
+      return activity.breakMinutes;
+    }
+    if (cycleSettings.enabled) {
+      return getPhaseMinutes(progress.phase, cycleSettings);
+    }
+    if (flowSettings.enabled && !isBreakPhase(progress.phase)) {
+      return flowSettings.targetMinutes ?? 0;
+    }
+    return isBreakPhase(progress.phase)
+      ? breakSettings.defaultMinutes
+      : selectedDuration;
+  };
+
+  // Flow focus counts up; breaks always count down
+  const getPhaseMode = (progress: CycleProgress): TimerMode =>
+    flowSettings.enabled && !isBreakPhase(progress.phase)
+      ? 'countUp'
+      : 'countdown';
+
+  // Moves on to the next phase and returns it, or null when a cycle has
+  // finished and starts over at the first focus block. Outside cycle mode
+  // focus and break simply alternate.
+  const advancePhase = (activity: Activity | null): CycleProgress | null => {
+    const next: CycleProgress | null = cycleSettings.enabled
+      ? getNextCycleProgress(cycleProgress, cycleSettings)
+      : {
+          phase: isBreakPhase(cycleProgress.phase) ? 'focus' : 'shortBreak',
+          block: 1,
+        };
+    if (!next) {
+      setCycleProgress(INITIAL_CYCLE_PROGRESS);
+      timer.reset(cycleSettings.focusMinutes * 60 * 1000);
+      return null;
+    }
+
+    setCycleProgress(next);
+    const nextDuration = getPlannedMinutes(next, activity) * 60 * 1000;
+    const autoStart =
+      cycleSettings.enabled &&
+      (isBreakPhase(next.phase)
+        ? cycleSettings.autoStartBreaks
+        : cycleSettings.autoStartFocus);
+    if (autoStart) {
+      timer.start(nextDuration, getPhaseMode(next));
+      if (!isBreakPhase(next.phase)) {
+        setActiveSession(createActiveSession(task.trim(), selectedTaskId));
+      }
+    } else {
+      timer.reset(nextDuration, getPhaseMode(next));
+    }
+    return next;
+  };
+
   const handleTimerComplete = async () => {
     console.log('⏰ MOBILE FOCUS: Timer completed!');
-    setIsRunning(false);
-    backgroundStartTime.current = null;
 
     if (Platform.OS !== 'web') {
       deactivateKeepAwake();
     }
 
+    if (isBreakPhase(cycleProgress.phase)) {
+      await handleBreakComplete();
+      return;
+    }
+
+    // A countdown that runs out asks whether to keep going before the
+    // session is logged, unless the cycle starts its breaks by itself;
+    // flow and overtime sessions end on request
+    if (timer.getMode() === 'countdown') {
+      // The notification already rang if the user answered it
+      if (!pendingEndActionRef.current) {
+        await playCompletionSound();
+        vibrateOnComplete();
+      }
+      const pendingAction = pendingEndActionRef.current;
+      pendingEndActionRef.current = null;
+      if (pendingAction) {
+        runEndAction(pendingAction);
+      } else if (cycleSettings.enabled && cycleSettings.autoStartBreaks) {
+        await completeFocus();
+      } else {
+        afterCompletionChoiceRef.current = () => {};
+        setShowCompletionChoice(true);
+      }
+      return;
+    }
+
+    await completeFocus();
+  };
+
+  // Logs the finished focus session and moves on to the reward break,
+  // starting it straight away when asked to
+  const completeFocus = async (startBreakNow = false) => {
+    const rewardActivity = chooseReward();
+    const hasParkedThoughts = (activeSession?.parked ?? []).length > 0;
+    const recorded = recordSession('completed', rewardActivity);
+    const next = advancePhase(rewardActivity);
+    if (
+      startBreakNow &&
+      next &&
+      isBreakPhase(next.phase) &&
+      timer.getStatus() === 'idle'
+    ) {
+      // The break length was set when the phase advanced
+      timer.start();
+    }
+
+    const finishedSubtasks = (await recorded) ?? [];
+    const status = await loadGoalStatus();
+
+    // The reward waits for the optional reflection prompt
+    const showReward = () => {
+      // Show break activity if available
+      if (rewardActivity) {
+        setCurrentActivity(rewardActivity);
+        setIsBreakOver(false);
+        // Nothing queued for an earlier sheet may run when this one closes
+        afterBreakModalRef.current = () => {};
+        setShowBreakModal(true);
+      } else {
+        const goalMessage = status
+          ? status.isMet
+            ? `\n\nDaily goal reached: ${status.focusedMinutes} of ${
+                status.goalMinutes
+              } min. Streak: ${status.streak} ${
+                status.streak === 1 ? 'day' : 'days'
+              }.`
+            : `\n\nDaily goal: ${status.focusedMinutes} of ${status.goalMinutes} min.`
+          : '';
+        const subtaskMessage =
+          finishedSubtasks.length > 0
+            ? `\n\nFinished this session:\n${finishedSubtasks
+                .map((title) => `✓ ${title}`)
+                .join('\n')}`
+            : '';
+        // Without a break sheet, parked thoughts get their own review
+        const reviewParked = () => {
+          if (hasParkedThoughts) {
+            setShowParkingLot(true);
+          }
+        };
+        if (Platform.OS === 'web') {
+          alert(
+            'Focus Session Complete!\n\nGreat job! Add some reward activities in the Activities tab for your next break.' +
+              subtaskMessage +
+              goalMessage
+          );
+          reviewParked();
+        } else {
+          Alert.alert(
+            'Focus Session Complete!',
+            'Great job! Add some reward activities in the Activities tab for your next break.' +
+              subtaskMessage +
+              goalMessage,
+            [{ text: 'OK', onPress: reviewParked }]
+          );
+        }
+      }
+    };
+
+    if (reflectionSettings.enabled) {
+      afterReflectionRef.current = showReward;
+      setShowReflection(true);
+    } else {
+      showReward();
+    }
+  };
+
+  // Saves the active focus session to history and clears it
+  const recordSession = async (
+    outcome: SessionOutcome,
+    rewardActivity: Activity | null = null
+  ) => {
+    if (!activeSession) return;
+
+    const sessionTask = tasks.find((t) => t.id === activeSession.taskId);
+    const completedSubtasks = sessionTask
+      ? getSubtasksCompletedSince(sessionTask, activeSession.startedAt)
+      : [];
+    const snapshot = timer.getSnapshot();
+    const session = finishSession(activeSession, {
+      plannedDuration: snapshot.duration,
+      outcome,
+      rewardActivity: rewardActivity && {
+        id: rewardActivity.id,
+        name: rewardActivity.name,
+        emoji: rewardActivity.emoji,
+      },
+      completedSubtasks:
+        completedSubtasks.length > 0 ? completedSubtasks : undefined,
+      flow: snapshot.mode === 'countUp' && !snapshot.overtime,
+      overtime: snapshot.overtime
+        ? Math.max(0, snapshot.elapsed - snapshot.duration)
+        : undefined,
+    });
+    setLastSessionId(outcome === 'completed' ? session.id : null);
+    setLastCompletedSubtasks(outcome === 'completed' ? completedSubtasks : []);
+    setReviewThoughts(outcome === 'completed' ? session.parked ?? [] : []);
+    setActiveSession(null);
+    if (outcome === 'completed') {
+      if (sessionTask) {
+        saveTask({
+          ...sessionTask,
+          completedSessions: sessionTask.completedSessions + 1,
+        });
+      }
+    }
+    await StorageService.addSession(session);
+    return completedSubtasks;
+  };
+
+  // Adds a new task or updates an existing one
+  const saveTask = (updated: Task) => {
+    const exists = tasks.some((t) => t.id === updated.id);
+    setTasks((prev) =>
+      exists
+        ? prev.map((t) => (t.id === updated.id ? updated : t))
+        : [...prev, updated]
+    );
+    if (exists) {
+      StorageService.updateTask(updated.id, updated);
+    } else {
+      StorageService.addTask(updated);
+    }
+
+    if (updated.id === selectedTaskId && !isSessionActive) {
+      if (updated.done) {
+        clearSelectedTask();
+      } else {
+        setTask(updated.title);
+      }
+    }
+  };
+
+  const removeTask = (taskId: string) => {
+    setTasks((prev) => prev.filter((t) => t.id !== taskId));
+    StorageService.removeTask(taskId);
+    if (taskId === selectedTaskId) {
+      clearSelectedTask();
+    }
+  };
+
+  const selectTask = (selected: Task) => {
+    setSelectedTaskId(selected.id);
+    setTask(selected.title);
+  };
+
+  const toggleSelectedSubtask = (subtaskId: string) => {
+    if (selectedTask) {
+      saveTask(toggleSubtask(selectedTask, subtaskId));
+    }
+  };
+
+  const clearSelectedTask = () => {
+    setSelectedTaskId(null);
+    setTask('');
+  };
+
+  // Turns whatever was typed into a task so it shows up in the list
+  const quickAddTask = () => {
+    if (!task.trim()) return;
+    const newTask = createTask(task.trim());
+    saveTask(newTask);
+    selectTask(newTask);
+  };
+
+  // Saves the answers, if any, then continues to the reward
+  const finishReflection = (reflection: SessionReflection | null) => {
+    setShowReflection(false);
+    if (reflection && lastSessionId) {
+      StorageService.updateSession(lastSessionId, { reflection });
+    }
+    // iOS can't present the next sheet while this one is still closing,
+    // so it waits for onDismiss, which only iOS reports
+    if (Platform.OS !== 'ios') {
+      runAfterReflection();
+    }
+  };
+
+  const runAfterReflection = () => {
+    afterReflectionRef.current();
+    afterReflectionRef.current = () => {};
+  };
+
+  // Mid-session thoughts live on the active session; afterwards the
+  // review list holds what is left of them
+  const parkThought = (text: string) => {
+    if (activeSession) {
+      setActiveSession(addParkedThought(activeSession, text));
+    }
+  };
+
+  const discardThought = (thoughtId: string) => {
+    if (activeSession) {
+      setActiveSession(removeParkedThought(activeSession, thoughtId));
+    } else {
+      setReviewThoughts((prev) =>
+        prev.filter((thought) => thought.id !== thoughtId)
+      );
+    }
+  };
+
+  const convertThought = (thought: ParkedThought) => {
+    saveTask(createTask(thought.text));
+    discardThought(thought.id);
+  };
+
+  const loadGoalStatus = async () => {
+    try {
+      const [sessions, goalSettings] = await Promise.all([
+        StorageService.getSessions(),
+        StorageService.getGoalSettings(),
+      ]);
+      const status = getGoalStatus(sessions, goalSettings);
+      setGoalStatus(status);
+      return status;
+    } catch (error) {
+      console.error('Error loading goal progress:', error);
+      return null;
+    }
+  };
+
+  const handleBreakComplete = async () => {
+    const nextPhase = advancePhase(null);
+
+    try {
+      await AudioService.playSound(breakSettings.sound || DEFAULT_SOUNDS[1]);
+    } catch (error) {
+      console.error('❌ Error playing break end sound:', error);
+    }
+    vibrateOnComplete();
+
+    // The next focus block may already have been started automatically
+    if (timer.getStatus() === 'running') {
+      setShowBreakModal(false);
+      return;
+    }
+
+    if (showBreakModal && nextPhase) {
+      setIsBreakOver(true);
+    } else {
+      setShowBreakModal(false);
+      showBreakOverMessage(nextPhase);
+    }
+  };
+
+  const showBreakOverMessage = (nextPhase: CycleProgress | null) => {
+    const title = nextPhase ? 'Break Over!' : 'Cycle Complete!';
+    let message = 'Ready to start your next focus session?';
+    if (!nextPhase) {
+      message = `You finished all ${cycleSettings.focusBlocks} focus blocks. Great work!`;
+    } else if (cycleSettings.enabled) {
+      message = `Time for focus block ${nextPhase.block} of ${cycleSettings.focusBlocks}.`;
+    }
+
+    if (Platform.OS === 'web') {
+      if (nextPhase) {
+        if (confirm(`${title}\n\n${message}\n\nStart focusing now?`)) {
+          startNextFocus();
+        }
+      } else {
+        alert(`${title}\n\n${message}`);
+      }
+    } else {
+      Alert.alert(
+        title,
+        message,
+        nextPhase
+          ? [
+              { text: 'Not Yet', style: 'cancel' },
+              { text: 'Start Focusing', onPress: startNextFocus },
+            ]
+          : [{ text: 'OK' }]
+      );
+    }
+  };
+
+  const playCompletionSound = async () => {
     console.log(
       '🔊 MOBILE FOCUS: About to play completion sound:',
       selectedSound
@@ -270,32 +968,307 @@ function FocusScreen() {
         AudioService.playSystemNotification();
       }
     }
+  };
 
-    // Vibrate for feedback
-    vibrateOnComplete();
+  const isBreak = isBreakPhase(cycleProgress.phase);
+  // The picked preset only counts while it still has the picked length,
+  // since presets can be edited or removed afterwards
+  const selectedPreset = durationPresets.find(
+    (preset) =>
+      preset.id === selectedPresetId && preset.minutes === selectedDuration
+  );
+  const durations = durationPresets.map((preset) => ({
+    id: preset.id,
+    label: getPresetLabel(preset),
+    value: preset.minutes,
+  }));
+  // A one-off duration gets its own chip so the selection stays visible
+  if (!durations.some((d) => d.value === selectedDuration)) {
+    durations.unshift({
+      id: 'custom',
+      label: formatDurationLabel(selectedDuration),
+      value: selectedDuration,
+    });
+  }
+  const flowTargets = [0, 25, 45, 60, 90].map((minutes) => ({
+    label: minutes ? formatDurationLabel(minutes) : 'No target',
+    value: minutes,
+  }));
+  const isFlowFocus = flowSettings.enabled && !isBreak;
+  // Cues belong to duration presets, so cycle, flow and one-off durations
+  // run without them
+  const activeCues =
+    cycleSettings.enabled || flowSettings.enabled
+      ? undefined
+      : (
+          selectedPreset ??
+          durationPresets.find((preset) => preset.minutes === selectedDuration)
+        )?.cues;
+  const selectedTask = tasks.find((t) => t.id === selectedTaskId) ?? null;
+  const plannedMinutes = getPlannedMinutes(cycleProgress, currentActivity);
 
-    // Show break activity if available
-    if (activities.length > 0) {
-      const randomActivity =
-        activities[Math.floor(Math.random() * activities.length)];
-      setCurrentActivity(randomActivity);
-      setShowBreakModal(true);
-    } else {
+  const toggleTimer = () => {
+    if (!isBreak && !task.trim()) {
       if (Platform.OS === 'web') {
-        alert(
-          'Focus Session Complete!\n\nGreat job! Add some reward activities in the Activities tab for your next break.'
-        );
+        alert('Task Required\n\nPlease enter what you want to focus on.');
       } else {
-        Alert.alert(
-          'Focus Session Complete!',
-          'Great job! Add some reward activities in the Activities tab for your next break.',
-          [{ text: 'OK' }]
-        );
+        Alert.alert('Task Required', 'Please enter what you want to focus on.');
       }
+      return;
+    }
+
+    if (status === 'running') {
+      timer.pause();
+      if (activeSession) {
+        setActiveSession(recordPause(activeSession));
+      }
+    } else if (status === 'paused') {
+      timer.resume();
+      if (activeSession) {
+        setActiveSession(recordResume(activeSession));
+      }
+    } else if (isBreak) {
+      timer.start(plannedMinutes * 60 * 1000, getPhaseMode(cycleProgress));
+    } else {
+      requestFocusStart();
     }
   };
 
-  const toggleTimer = () => {
+  // Manual focus starts go through the optional energy and mood check-in
+  const requestFocusStart = () => {
+    if (checkInSettings.enabled) {
+      setShowCheckIn(true);
+    } else {
+      startFocus(null);
+    }
+  };
+
+  const startFocus = (checkIn: SessionCheckIn | null) => {
+    setShowCheckIn(false);
+    timer.start(
+      getPlannedMinutes(cycleProgress, null) * 60 * 1000,
+      getPhaseMode(cycleProgress)
+    );
+    setActiveSession(
+      recordCheckIn(createActiveSession(task.trim(), selectedTaskId), checkIn)
+    );
+  };
+
+  const choosePauseReason = (reason: PauseReason) => {
+    if (activeSession) {
+      setActiveSession(setPauseReason(activeSession, reason));
+    }
+  };
+
+  // Switching away from a running focus session counts as a distraction,
+  // and optionally brings a nudge to come back
+  const handleLeaveApp = () => {
+    if (status !== 'running' || !activeSession) return;
+
+    setActiveSession(recordDistraction(activeSession));
+    const graceMs = leaveNudgeSettings.graceSeconds * 1000;
+    const snapshot = timer.getSnapshot();
+    // No point nudging about a countdown that will be over by then
+    if (
+      leaveNudgeSettings.enabled &&
+      (snapshot.mode === 'countUp' || snapshot.remaining > graceMs)
+    ) {
+      NotificationService.scheduleLeaveNudge(
+        activeSession.task,
+        leaveNudgeSettings.graceSeconds
+      );
+    }
+  };
+
+  const runEndAction = (action: SessionAction) => {
+    if (action === 'extend') {
+      extendFocus(NOTIFICATION_EXTEND_MINUTES);
+    } else if (action === 'startBreak') {
+      finishCompletedFocus(true);
+    }
+  };
+
+  const handleNotificationAction = (action: SessionAction) => {
+    if (!isSessionRestored) {
+      queuedActionRef.current = action;
+      return;
+    }
+
+    if (action === 'pause' || action === 'stop') {
+      if (isBreak || !isSessionActive) return;
+      if (action === 'stop') {
+        resetTimer();
+      } else if (status === 'running') {
+        toggleTimer();
+      }
+      return;
+    }
+
+    if (showCompletionChoice) {
+      runEndAction(action);
+    } else if (status === 'running' && !isBreak) {
+      // The app was asleep when the countdown ran out; catch up and let
+      // completion carry out the action
+      pendingEndActionRef.current = action;
+      timer.sync();
+      // Still counting down, so the action must not linger until a later
+      // completion picks it up
+      if (timer.getStatus() === 'running') {
+        pendingEndActionRef.current = null;
+      }
+    }
+  };
+
+  const handleTimerTick = (snapshot: TimerSnapshot) => {
+    if (
+      snapshot.mode === 'countdown' &&
+      Math.ceil(snapshot.remaining / 1000) === 3 &&
+      selectedSound
+    ) {
+      // Preload sound 3 seconds before timer ends
+      AudioService.preloadSound(selectedSound);
+    }
+
+    const previousElapsed = cueElapsedRef.current;
+    const previousRemaining = warningRemainingRef.current;
+    cueElapsedRef.current = snapshot.elapsed;
+    warningRemainingRef.current = snapshot.remaining;
+    if (snapshot.mode !== 'countdown') return;
+
+    const warning = getDueWarning(
+      warningSettings.offsetsMinutes,
+      snapshot.duration,
+      previousRemaining,
+      snapshot.remaining
+    );
+    if (warning !== null) {
+      showWarning(warning);
+      return;
+    }
+
+    if (activeCues && !isBreak) {
+      const cue = getDueCue(
+        activeCues,
+        snapshot.duration,
+        // A smaller reading means a new session has started
+        Math.min(previousElapsed, snapshot.elapsed),
+        snapshot.elapsed
+      );
+      if (cue) {
+        playCue(activeCues, cue);
+      }
+    }
+  };
+
+  const showWarning = (minutes: number) => {
+    if (warningSettings.feedback !== 'haptic') {
+      AudioService.playWarning();
+    }
+    if (warningSettings.feedback !== 'sound') {
+      vibrateWarning();
+    }
+    const timeLeft = `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+    setWarningMessage(
+      isBreak
+        ? `${timeLeft} of break left. Get ready to focus again.`
+        : `${timeLeft} left. Start wrapping up.`
+    );
+  };
+
+  const playCue = (cues: IntervalCues, cue: CueKind) => {
+    if (cues.feedback !== 'haptic') {
+      AudioService.playCue();
+    }
+    if (cues.feedback !== 'sound') {
+      vibrateCue(cue === 'halfway' ? 2 : 1);
+    }
+  };
+
+  // The soft target only chimes; the session keeps counting until finished
+  const handleFlowTarget = async () => {
+    await playCompletionSound();
+    vibrateOnComplete();
+  };
+
+  onCompleteRef.current = handleTimerComplete;
+  onTickRef.current = handleTimerTick;
+  onTargetRef.current = handleFlowTarget;
+  onLeaveAppRef.current = handleLeaveApp;
+  onNotificationActionRef.current = handleNotificationAction;
+
+  // Resetting during a break skips it and returns to focus
+  const resetTimer = () => {
+    if (isBreak) {
+      endBreak();
+      return;
+    }
+    if (timer.getSnapshot().overtime) {
+      // Overtime already met the plan, so it ends as completed
+      finishFlow();
+      return;
+    }
+    recordSession('abandoned');
+    timer.reset(plannedMinutes * 60 * 1000, getPhaseMode(cycleProgress));
+  };
+
+  // Ends a flow or overtime session; completion then runs the usual
+  // reward flow
+  const finishFlow = () => {
+    timer.finish();
+  };
+
+  const extendFocus = (minutes: number) => {
+    setShowCompletionChoice(false);
+    timer.extend(minutes * 60 * 1000);
+  };
+
+  const startOvertime = () => {
+    setShowCompletionChoice(false);
+    timer.startOvertime();
+  };
+
+  // Also called from a notification action when the sheet never opened
+  const finishCompletedFocus = (startBreakNow = false) => {
+    const isClosingSheet = showCompletionChoice;
+    setShowCompletionChoice(false);
+    // The reflection or break sheet has to wait for this one to close on iOS
+    if (Platform.OS === 'ios' && isClosingSheet) {
+      afterCompletionChoiceRef.current = () => completeFocus(startBreakNow);
+    } else {
+      completeFocus(startBreakNow);
+    }
+  };
+
+  const runAfterCompletionChoice = () => {
+    afterCompletionChoiceRef.current();
+    afterCompletionChoiceRef.current = () => {};
+  };
+
+  const startBreak = () => {
+    timer.start(plannedMinutes * 60 * 1000);
+  };
+
+  const extendBreak = () => {
+    setWarningMessage(null);
+    timer.extend(BREAK_EXTEND_MINUTES * 60 * 1000);
+  };
+
+  const endBreak = () => {
+    const nextPhase = advancePhase(null);
+    setIsBreakOver(false);
+    setShowBreakModal(false);
+    if (!nextPhase) {
+      showBreakOverMessage(null);
+    }
+  };
+
+  // Called from the break sheet, or from the break-over popup when the
+  // sheet was not open
+  const startNextFocus = () => {
+    const isClosingSheet = showBreakModal;
+    setIsBreakOver(false);
+    setShowBreakModal(false);
+
     if (!task.trim()) {
       if (Platform.OS === 'web') {
         alert('Task Required\n\nPlease enter what you want to focus on.');
@@ -304,39 +1277,130 @@ function FocusScreen() {
       }
       return;
     }
+    // The check-in sheet has to wait for the break sheet to close on iOS
+    if (Platform.OS === 'ios' && isClosingSheet) {
+      afterBreakModalRef.current = requestFocusStart;
+    } else {
+      requestFocusStart();
+    }
+  };
 
-    if (!isRunning) {
-      backgroundStartTime.current = null;
+  const runAfterBreakModal = () => {
+    afterBreakModalRef.current();
+    afterBreakModalRef.current = () => {};
+  };
+
+  const toggleCycleMode = (enabled: boolean) => {
+    const updated = { ...cycleSettings, enabled };
+    setCycleSettings(updated);
+    StorageService.saveCycleSettings(updated);
+    if (enabled && flowSettings.enabled) {
+      const updatedFlow = { ...flowSettings, enabled: false };
+      setFlowSettings(updatedFlow);
+      StorageService.saveFlowSettings(updatedFlow);
     }
+    setCycleProgress(INITIAL_CYCLE_PROGRESS);
+    timer.reset(
+      (enabled ? updated.focusMinutes : selectedDuration) * 60 * 1000
+    );
+  };
 
-    setIsRunning(!isRunning);
+  // Flow and cycle mode are exclusive; a cycle needs fixed block lengths
+  const toggleFlowMode = (enabled: boolean) => {
+    const updated = { ...flowSettings, enabled };
+    setFlowSettings(updated);
+    StorageService.saveFlowSettings(updated);
+    if (enabled && cycleSettings.enabled) {
+      const updatedCycle = { ...cycleSettings, enabled: false };
+      setCycleSettings(updatedCycle);
+      StorageService.saveCycleSettings(updatedCycle);
+    }
+    setCycleProgress(INITIAL_CYCLE_PROGRESS);
+    if (enabled) {
+      timer.reset((updated.targetMinutes ?? 0) * 60 * 1000, 'countUp');
+    } else {
+      timer.reset(selectedDuration * 60 * 1000);
+    }
   };
 
-  const resetTimer = () => {
-    setIsRunning(false);
-    setTimeLeft(selectedDuration * 60);
-    backgroundStartTime.current = null;
+  const selectFlowTarget = (minutes: number) => {
+    const updated = { ...flowSettings, targetMinutes: minutes || null };
+    setFlowSettings(updated);
+    StorageService.saveFlowSettings(updated);
+    if (!isSessionActive) {
+      timer.reset(minutes * 60 * 1000, 'countUp');
+    }
+  };
+
+  const saveCycleSettings = (settings: CycleSettings) => {
+    setCycleSettings(settings);
+    StorageService.saveCycleSettings(settings);
 
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
+    // A running phase keeps its length; new settings apply from the next one
+    if (settings.enabled && !isSessionActive) {
+      setCycleProgress(INITIAL_CYCLE_PROGRESS);
+      timer.reset(settings.focusMinutes * 60 * 1000);
     }
   };
 
-  const handleDurationSelect = (duration: number) => {
+  // Durations set outside the chips have no preset id
+  const handleDurationSelect = (duration: number, presetId?: string) => {
     if (!isRunning) {
       setSelectedDuration(duration);
-      setTimeLeft(duration * 60);
+      setSelectedPresetId(presetId ?? null);
+      if (timer.getSnapshot().overtime) {
+        // Logged as completed; the new length applies to the next focus
+        finishFlow();
+        return;
+      }
+      recordSession('abandoned');
+      timer.reset(duration * 60 * 1000);
+    }
+  };
+
+  const saveDurationPresets = (presets: DurationPreset[]) => {
+    setDurationPresets(presets);
+    StorageService.saveDurationPresets(presets);
+  };
+
+  // Picks a reward, avoiding recent ones, and remembers it
+  const chooseReward = (excludeId: string | null = null) => {
+    const reward = pickReward(activities, {
+      recentIds: recentRewardIds,
+      excludeId,
+    });
+    if (reward) {
+      const updated = rememberReward(recentRewardIds, reward.id);
+      setRecentRewardIds(updated);
+      StorageService.saveRecentRewards(updated);
     }
+    return reward;
   };
 
+  const canGetNewActivity = hasRewardAlternatives(
+    activities,
+    currentActivity?.id ?? null
+  );
+
   const getNewActivity = () => {
-    if (activities.length > 1) {
-      let newActivity;
-      do {
-        newActivity = activities[Math.floor(Math.random() * activities.length)];
-      } while (newActivity.id === currentActivity?.id && activities.length > 1);
+    const newActivity = chooseReward(currentActivity?.id ?? null);
+    if (newActivity && newActivity.id !== currentActivity?.id) {
       setCurrentActivity(newActivity);
+
+      if (lastSessionId) {
+        StorageService.updateSession(lastSessionId, {
+          rewardActivity: {
+            id: newActivity.id,
+            name: newActivity.name,
+            emoji: newActivity.emoji,
+          },
+        });
+      }
+
+      // A break that has not started yet takes on the new activity's length
+      if (isBreak && !isSessionActive) {
+        timer.reset(getPlannedMinutes(cycleProgress, newActivity) * 60 * 1000);
+      }
     }
   };
 
@@ -354,34 +1418,258 @@ function FocusScreen() {
           <View style={styles.header}>
             <Text style={styles.title}>Focus Timer</Text>
             <Text style={styles.subtitle}>Stay focused, be productive</Text>
+            <TouchableOpacity
+              style={styles.historyButton}
+              onPress={() => router.push('/history')}
+            >
+              <History size={22} color="#7C3AED" />
+            </TouchableOpacity>
           </View>
 
           <View style={styles.taskSection}>
-            <Text style={styles.taskLabel}>
-              What would you like to focus on?
-            </Text>
-            <TextInput
-              style={styles.taskInput}
-              value={task}
-              onChangeText={setTask}
-              placeholder="Enter your task..."
-              placeholderTextColor="#9CA3AF"
-              maxLength={100}
-              multiline={false}
-            />
+            <View style={styles.taskHeader}>
+              <Text style={styles.taskLabel}>
+                What would you like to focus on?
+              </Text>
+              <TouchableOpacity
+                style={styles.taskListButton}
+                onPress={() => setShowTaskPicker(true)}
+                disabled={isSessionActive}
+              >
+                <ListTodo
+                  size={18}
+                  color={isSessionActive ? '#9CA3AF' : '#7C3AED'}
+                />
+              </TouchableOpacity>
+            </View>
+            {selectedTask ? (
+              <View style={styles.selectedTask}>
+                <View style={styles.selectedTaskHeader}>
+                  <View style={styles.selectedTaskContent}>
+                    <Text style={styles.selectedTaskTitle} numberOfLines={1}>
+                      {selectedTask.title}
+                    </Text>
+                    <Text style={styles.selectedTaskMeta}>
+                      {formatTaskProgress(selectedTask)}
+                    </Text>
+                  </View>
+                  {!isSessionActive && (
+                    <TouchableOpacity
+                      style={styles.clearTaskButton}
+                      onPress={clearSelectedTask}
+                    >
+                      <X size={18} color="#6B7280" />
+                    </TouchableOpacity>
+                  )}
+                </View>
+                {selectedTask.subtasks && selectedTask.subtasks.length > 0 && (
+                  <ScrollView
+                    style={styles.subtaskList}
+                    nestedScrollEnabled
+                    showsVerticalScrollIndicator={false}
+                  >
+                    {selectedTask.subtasks.map((subtask) => (
+                      <TouchableOpacity
+                        key={subtask.id}
+                        style={styles.subtaskItem}
+                        onPress={() => toggleSelectedSubtask(subtask.id)}
+                      >
+                        {subtask.done ? (
+                          <CircleCheck size={18} color="#059669" />
+                        ) : (
+                          <Circle size={18} color="#9CA3AF" />
+                        )}
+                        <Text
+                          style={[
+                            styles.subtaskText,
+                            subtask.done && styles.subtaskTextDone,
+                          ]}
+                          numberOfLines={1}
+                        >
+                          {subtask.title}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+                )}
+              </View>
+            ) : (
+              <View style={styles.taskInputRow}>
+                <TextInput
+                  style={[styles.taskInput, styles.taskInputFlex]}
+                  value={task}
+                  onChangeText={setTask}
+                  placeholder="Enter your task..."
+                  placeholderTextColor="#9CA3AF"
+                  maxLength={100}
+                  multiline={false}
+                />
+                <TouchableOpacity
+                  style={[
+                    styles.addTaskButton,
+                    (!task.trim() || isSessionActive) &&
+                      styles.addTaskButtonDisabled,
+                  ]}
+                  onPress={quickAddTask}
+                  disabled={!task.trim() || isSessionActive}
+                >
+                  <Plus size={22} color="#FFFFFF" />
+                </TouchableOpacity>
+              </View>
+            )}
           </View>
 
           <View style={styles.durationSection}>
-            <Text style={styles.durationLabel}>Duration</Text>
-            <DurationSelector
-              durations={durations}
-              selectedDuration={selectedDuration}
-              onSelect={handleDurationSelect}
-              disabled={isRunning}
-            />
+            <View style={styles.durationHeader}>
+              <Text style={styles.durationLabel}>
+                {cycleSettings.enabled
+                  ? 'Focus Cycle'
+                  : flowSettings.enabled
+                  ? 'Flow Target'
+                  : 'Duration'}
+              </Text>
+              <View style={styles.cycleToggle}>
+                <Text style={styles.cycleToggleText}>Flow</Text>
+                <Switch
+                  value={flowSettings.enabled}
+                  onValueChange={toggleFlowMode}
+                  disabled={isSessionActive || isBreak}
+                  trackColor={{ false: '#E5E7EB', true: '#C4B5FD' }}
+                  thumbColor={flowSettings.enabled ? '#7C3AED' : '#F9FAFB'}
+                />
+                <Text style={styles.cycleToggleText}>Cycle</Text>
+                <Switch
+                  value={cycleSettings.enabled}
+                  onValueChange={toggleCycleMode}
+                  disabled={isSessionActive}
+                  trackColor={{ false: '#E5E7EB', true: '#C4B5FD' }}
+                  thumbColor={cycleSettings.enabled ? '#7C3AED' : '#F9FAFB'}
+                />
+                <TouchableOpacity
+                  style={styles.cycleSettingsButton}
+                  onPress={() => setShowCycleSettings(true)}
+                >
+                  <SlidersHorizontal size={18} color="#7C3AED" />
+                </TouchableOpacity>
+              </View>
+            </View>
+            {cycleSettings.enabled ? (
+              <View style={styles.cycleProgress}>
+                <Text style={styles.cycleProgressText}>
+                  {cycleProgress.block} of {cycleSettings.focusBlocks}
+                </Text>
+                <Text style={styles.cyclePhaseText}>
+                  {CYCLE_PHASE_LABELS[cycleProgress.phase]} · {plannedMinutes}{' '}
+                  min
+                </Text>
+                <View style={styles.cycleDots}>
+                  {Array.from(
+                    { length: cycleSettings.focusBlocks },
+                    (_, index) => {
+                      const block = index + 1;
+                      const isDone =
+                        block < cycleProgress.block ||
+                        (block === cycleProgress.block && isBreak);
+                      return (
+                        <View
+                          key={block}
+                          style={[
+                            styles.cycleDot,
+                            isDone && styles.cycleDotDone,
+                            block === cycleProgress.block &&
+                              !isBreak &&
+                              styles.cycleDotCurrent,
+                          ]}
+                        />
+                      );
+                    }
+                  )}
+                </View>
+              </View>
+            ) : isBreak ? (
+              <View style={styles.cycleProgress}>
+                <Text style={styles.cycleProgressText}>Break</Text>
+                <Text style={styles.cyclePhaseText}>
+                  {currentActivity
+                    ? `${currentActivity.emoji} ${currentActivity.name} · `
+                    : ''}
+                  {plannedMinutes} min
+                </Text>
+              </View>
+            ) : isFlowFocus ? (
+              <DurationSelector
+                durations={flowTargets}
+                selectedDuration={flowSettings.targetMinutes ?? 0}
+                onSelect={selectFlowTarget}
+                disabled={isRunning}
+              />
+            ) : (
+              <DurationSelector
+                durations={durations}
+                selectedDuration={selectedDuration}
+                selectedId={selectedPreset?.id}
+                onSelect={handleDurationSelect}
+                onEdit={() => setShowDurationPresets(true)}
+                disabled={isRunning}
+              />
+            )}
           </View>
 
-          <TimerDisplay timeLeft={timeLeft} isRunning={isRunning} />
+          {warningMessage && (
+            <View style={styles.warningBanner}>
+              <Hourglass size={18} color="#92400E" />
+              <Text style={styles.warningText}>{warningMessage}</Text>
+              <TouchableOpacity onPress={() => setWarningMessage(null)}>
+                <X size={18} color="#92400E" />
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <TimerDisplay
+            timer={timer}
+            displayStyle={displaySettings.style}
+            hideDigits={
+              displaySettings.hideDigitsDuringFocus &&
+              !isBreak &&
+              isSessionActive
+            }
+          />
+
+          {status === 'paused' && activeSession && (
+            <View style={styles.pauseReasons}>
+              <Text style={styles.pauseReasonsTitle}>
+                What interrupted you?
+              </Text>
+              <View style={styles.pauseReasonChips}>
+                {(Object.keys(PAUSE_REASON_LABELS) as PauseReason[]).map(
+                  (reason) => {
+                    const isSelected =
+                      activeSession.pauses[activeSession.pauses.length - 1]
+                        ?.reason === reason;
+                    return (
+                      <TouchableOpacity
+                        key={reason}
+                        style={[
+                          styles.pauseReasonChip,
+                          isSelected && styles.pauseReasonChipSelected,
+                        ]}
+                        onPress={() => choosePauseReason(reason)}
+                      >
+                        <Text
+                          style={[
+                            styles.pauseReasonText,
+                            isSelected && styles.pauseReasonTextSelected,
+                          ]}
+                        >
+                          {PAUSE_REASON_LABELS[reason]}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  }
+                )}
+              </View>
+            </View>
+          )}
 
           <View style={styles.controls}>
             <TouchableOpacity
@@ -398,10 +1686,10 @@ function FocusScreen() {
             <TouchableOpacity
               style={[
                 styles.startButton,
-                !task.trim() && styles.startButtonDisabled,
+                !isBreak && !task.trim() && styles.startButtonDisabled,
               ]}
               onPress={toggleTimer}
-              disabled={!task.trim()}
+              disabled={!isBreak && !task.trim()}
             >
               {isRunning ? (
                 <Pause size={28} color="#FFFFFF" />
@@ -409,9 +1697,31 @@ function FocusScreen() {
                 <Play size={28} color="#FFFFFF" />
               )}
               <Text style={styles.startButtonText}>
-                {isRunning ? 'Pause' : 'Start Focusing'}
+                {isRunning
+                  ? 'Pause'
+                  : isBreak
+                  ? 'Start Break'
+                  : 'Start Focusing'}
               </Text>
             </TouchableOpacity>
+
+            {!isBreak && isSessionActive && (
+              <TouchableOpacity
+                style={styles.controlButton}
+                onPress={() => setShowParkingLot(true)}
+              >
+                <NotebookPen size={24} color="#7C3AED" />
+              </TouchableOpacity>
+            )}
+
+            {(isFlowFocus || overtime) && isSessionActive && (
+              <TouchableOpacity
+                style={styles.controlButton}
+                onPress={finishFlow}
+              >
+                <Flag size={24} color="#059669" />
+              </TouchableOpacity>
+            )}
           </View>
 
           {/* Mobile Debug info - shows sound status */}
@@ -428,11 +1738,84 @@ function FocusScreen() {
           )}
         </View>
 
+        <SessionCompleteModal
+          visible={showCompletionChoice}
+          durationLabel={formatDurationLabel(duration / (60 * 1000))}
+          onExtend={extendFocus}
+          onOvertime={startOvertime}
+          onFinish={() => finishCompletedFocus()}
+          onDismiss={runAfterCompletionChoice}
+        />
+
         <BreakModal
           visible={showBreakModal}
           activity={currentActivity}
-          onClose={() => setShowBreakModal(false)}
-          onNewActivity={getNewActivity}
+          timer={timer}
+          isBreakOver={isBreakOver}
+          onClose={() => {
+            setShowBreakModal(false);
+            setIsBreakOver(false);
+          }}
+          onNewActivity={canGetNewActivity ? getNewActivity : undefined}
+          onStartBreak={startBreak}
+          onExtendBreak={extendBreak}
+          onEndBreak={endBreak}
+          onStartFocus={startNextFocus}
+          goalStatus={goalStatus}
+          completedSubtasks={lastCompletedSubtasks}
+          warningMessage={warningMessage}
+          parkedThoughts={reviewThoughts}
+          onConvertThought={convertThought}
+          onDiscardThought={discardThought}
+          onDismiss={runAfterBreakModal}
+        />
+
+        <ReflectionModal
+          visible={showReflection}
+          task={task.trim()}
+          onSave={finishReflection}
+          onSkip={() => finishReflection(null)}
+          onDismiss={runAfterReflection}
+        />
+
+        <CheckInModal
+          visible={showCheckIn}
+          onStart={startFocus}
+          onClose={() => setShowCheckIn(false)}
+        />
+
+        <ParkingLotModal
+          visible={showParkingLot}
+          thoughts={activeSession ? activeSession.parked ?? [] : reviewThoughts}
+          onClose={() => setShowParkingLot(false)}
+          onPark={activeSession ? parkThought : undefined}
+          onConvert={convertThought}
+          onDiscard={discardThought}
+        />
+
+        <TaskPickerModal
+          visible={showTaskPicker}
+          tasks={tasks}
+          selectedTaskId={selectedTaskId}
+          onClose={() => setShowTaskPicker(false)}
+          onSelect={selectTask}
+          onSave={saveTask}
+          onRemove={removeTask}
+        />
+
+        <DurationPresetsModal
+          visible={showDurationPresets}
+          presets={durationPresets}
+          onClose={() => setShowDurationPresets(false)}
+          onSave={saveDurationPresets}
+          onUseDuration={(minutes) => handleDurationSelect(minutes)}
+        />
+
+        <CycleSettingsModal
+          visible={showCycleSettings}
+          settings={cycleSettings}
+          onClose={() => setShowCycleSettings(false)}
+          onSave={saveCycleSettings}
         />
       </View>
     </ImageBackground>
@@ -456,6 +1839,19 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 40,
   },
+  historyButton: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+    padding: 10,
+    borderRadius: 20,
+    backgroundColor: '#FFFFFF',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
   title: {
     fontFamily: 'SpaceGrotesk-Bold',
     fontSize: 32,
@@ -471,11 +1867,93 @@ const styles = StyleSheet.create({
   taskSection: {
     marginBottom: 32,
   },
+  taskHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
   taskLabel: {
     fontFamily: 'Inter-SemiBold',
     fontSize: 18,
     color: '#1F2937',
-    marginBottom: 12,
+    flex: 1,
+  },
+  taskListButton: {
+    padding: 8,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+  },
+  taskInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  taskInputFlex: {
+    flex: 1,
+  },
+  addTaskButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 16,
+    backgroundColor: '#7C3AED',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  addTaskButtonDisabled: {
+    backgroundColor: '#9CA3AF',
+  },
+  selectedTask: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderWidth: 2,
+    borderColor: '#7C3AED',
+    minHeight: 56,
+    justifyContent: 'center',
+  },
+  selectedTaskHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  selectedTaskContent: {
+    flex: 1,
+  },
+  selectedTaskTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#1F2937',
+  },
+  selectedTaskMeta: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: '#7C3AED',
+    marginTop: 2,
+  },
+  clearTaskButton: {
+    padding: 8,
+    marginLeft: 8,
+  },
+  subtaskList: {
+    maxHeight: 112,
+    marginTop: 8,
+  },
+  subtaskItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 6,
+  },
+  subtaskText: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  subtaskTextDone: {
+    color: '#9CA3AF',
+    textDecorationLine: 'line-through',
   },
   taskInput: {
     backgroundColor: '#FFFFFF',
@@ -497,11 +1975,120 @@ const styles = StyleSheet.create({
   durationSection: {
     marginBottom: 40,
   },
+  durationHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
   durationLabel: {
     fontFamily: 'Inter-SemiBold',
     fontSize: 18,
     color: '#1F2937',
-    marginBottom: 16,
+  },
+  cycleToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cycleToggleText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  cycleSettingsButton: {
+    padding: 8,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+  },
+  cycleProgress: {
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    paddingVertical: 16,
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+  },
+  cycleProgressText: {
+    fontFamily: 'SpaceGrotesk-Bold',
+    fontSize: 24,
+    color: '#7C3AED',
+    fontWeight: '700',
+  },
+  cyclePhaseText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  cycleDots: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  cycleDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: '#E5E7EB',
+  },
+  cycleDotDone: {
+    backgroundColor: '#7C3AED',
+  },
+  cycleDotCurrent: {
+    backgroundColor: '#C4B5FD',
+  },
+  warningBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FEF3C7',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  warningText: {
+    flex: 1,
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#92400E',
+  },
+  pauseReasons: {
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  pauseReasonsTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  pauseReasonChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  pauseReasonChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  pauseReasonChipSelected: {
+    borderColor: '#7C3AED',
+    backgroundColor: '#F5F3FF',
+  },
+  pauseReasonText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#4B5563',
+  },
+  pauseReasonTextSelected: {
+    fontFamily: 'Inter-SemiBold',
+    color: '#7C3AED',
   },
   controls: {
     flexDirection: 'row',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -18,19 +18,29 @@ import {
   Target,
   Brain,
 } from 'lucide-react-native';
-import { router } from 'expo-router';
+import { router, useFocusEffect } from 'expo-router';
 import { StorageService } from '@/utils/storage';
+import { GoalStatus, getGoalStatus } from '@/utils/goals';
 import Footer from '@/components/Footer';
+import GoalProgress from '@/components/GoalProgress';
 
 const { width } = Dimensions.get('window');
 
 export default function () {
   const [backgroundImage, setBackgroundImage] = useState<string | null>(null);
+  const [goalStatus, setGoalStatus] = useState<GoalStatus | null>(null);
 
   useEffect(() => {
     loadBackgroundImage();
   }, []);
 
+  // Refresh goal progress whenever Home comes back into view
+  useFocusEffect(
+    useCallback(() => {
+      loadGoalStatus();
+    }, [])
+  );
+
   const loadBackgroundImage = async () => {
     try {
       const image = await StorageService.getBackgroundImage();
@@ -40,6 +50,18 @@ export default function () {
     }
   };
 
+  const loadGoalStatus = async () => {
+    try {
+      const [sessions, goalSettings] = await Promise.all([
+        StorageService.getSessions(),
+        StorageService.getGoalSettings(),
+      ]);
+      setGoalStatus(getGoalStatus(sessions, goalSettings));
+    } catch (error) {
+      console.error('Error loading goal progress:', error);
+    }
+  };
+
   const defaultBackground =
     'https://images.pexels.com/photos/3184291/pexels-photo-3184291.jpeg?auto=compress&cs=tinysrgb&w=1200';
 
@@ -115,6 +137,12 @@ export default function () {
             <Text style={styles.quickStartText}>Quick Start Focus Session</Text>
           </TouchableOpacity>
 
+          {goalStatus && (
+            <View style={styles.goalSection}>
+              <GoalProgress status={goalStatus} />
+            </View>
+          )}
+
           <View style={styles.featuresSection}>
             <Text style={styles.sectionTitle}>Features</Text>
             {features.map((feature, index) => (
@@ -164,8 +192,8 @@ export default function () {
                   <Text style={styles.stepText}>1</Text>
                 </View>
                 <Text style={styles.instructionText}>
-                  Set your task and choose a focus duration (30 seconds to 1
-                  hour)
+                  Set your task and choose a focus duration, or save your own
+                  presets
                 </Text>
               </View>
               <View style={styles.instructionItem}>
@@ -264,6 +292,9 @@ const styles = StyleSheet.create({
     fontSize: 18,
     color: '#FFFFFF',
   },
+  goalSection: {
+    marginBottom: 32,
+  },
   featuresSection: {
     marginBottom: 32,
   },
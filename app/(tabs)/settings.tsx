@@ -8,6 +8,7 @@ import {
   Alert,
   Image,
   ScrollView,
+  Switch,
 } from 'react-native';
 import {
   Upload,
@@ -19,10 +20,31 @@ import {
   Play,
   Pause,
   ChevronDown,
+  Minus,
+  Plus,
+  X,
 } from 'lucide-react-native';
 import * as DocumentPicker from 'expo-document-picker';
 import * as ImagePicker from 'expo-image-picker';
-import { StorageService } from '@/utils/storage';
+import {
+  StorageService,
+  BreakSettings,
+  DEFAULT_BREAK_SETTINGS,
+  GoalSettings,
+  DEFAULT_GOAL_SETTINGS,
+  TimerDisplaySettings,
+  TimerDisplayStyle,
+  DEFAULT_TIMER_DISPLAY_SETTINGS,
+  WarningSettings,
+  DEFAULT_WARNING_SETTINGS,
+  CueFeedback,
+  ReflectionSettings,
+  DEFAULT_REFLECTION_SETTINGS,
+  CheckInSettings,
+  DEFAULT_CHECK_IN_SETTINGS,
+  LeaveNudgeSettings,
+  DEFAULT_LEAVE_NUDGE_SETTINGS,
+} from '@/utils/storage';
 import { AudioService, SoundOption, DEFAULT_SOUNDS } from '@/utils/audio';
 import { getTranslation } from '@/utils/translations';
 import FileSystem from '@/utils/fileSystemProxy';
@@ -34,6 +56,41 @@ function SettingsScreen() {
   const [isTestingSound, setIsTestingSound] = useState(false);
   const [currentLanguage, setCurrentLanguage] = useState('en');
   const [showSoundDropdown, setShowSoundDropdown] = useState(false);
+  const [breakSettings, setBreakSettings] = useState<BreakSettings>(
+    DEFAULT_BREAK_SETTINGS
+  );
+  const [goalSettings, setGoalSettings] = useState<GoalSettings>(
+    DEFAULT_GOAL_SETTINGS
+  );
+  const [displaySettings, setDisplaySettings] = useState<TimerDisplaySettings>(
+    DEFAULT_TIMER_DISPLAY_SETTINGS
+  );
+  const [warningSettings, setWarningSettings] = useState<WarningSettings>(
+    DEFAULT_WARNING_SETTINGS
+  );
+  const [newWarningMinutes, setNewWarningMinutes] = useState(10);
+  const [reflectionSettings, setReflectionSettings] =
+    useState<ReflectionSettings>(DEFAULT_REFLECTION_SETTINGS);
+  const [checkInSettings, setCheckInSettings] = useState<CheckInSettings>(
+    DEFAULT_CHECK_IN_SETTINGS
+  );
+  const [leaveNudgeSettings, setLeaveNudgeSettings] =
+    useState<LeaveNudgeSettings>(DEFAULT_LEAVE_NUDGE_SETTINGS);
+
+  const displayStyles: { value: TimerDisplayStyle; labelKey: string }[] = [
+    { value: 'digits', labelKey: 'displayDigits' },
+    { value: 'both', labelKey: 'displayBoth' },
+    { value: 'ring', labelKey: 'displayRing' },
+    { value: 'disc', labelKey: 'displayDisc' },
+  ];
+
+  const feedbackOptions: { value: CueFeedback; labelKey: string }[] = [
+    { value: 'sound', labelKey: 'feedbackSound' },
+    { value: 'haptic', labelKey: 'feedbackHaptic' },
+    { value: 'both', labelKey: 'feedbackBoth' },
+  ];
+
+  const nudgeGraceOptions = [10, 30, 60, 120, 300]; // seconds
 
   const languages = [
     { code: 'en', name: 'English' },
@@ -48,17 +105,43 @@ function SettingsScreen() {
 
   const loadSettings = async () => {
     try {
-      const [sounds, selected, image, language] = await Promise.all([
+      const [
+        sounds,
+        selected,
+        image,
+        language,
+        loadedBreakSettings,
+        loadedGoalSettings,
+        loadedDisplaySettings,
+        loadedWarningSettings,
+        loadedReflectionSettings,
+        loadedCheckInSettings,
+        loadedLeaveNudgeSettings,
+      ] = await Promise.all([
         StorageService.getCustomSounds(),
         StorageService.getSelectedSound(),
         StorageService.getBackgroundImage(),
         StorageService.getLanguage(),
+        StorageService.getBreakSettings(),
+        StorageService.getGoalSettings(),
+        StorageService.getTimerDisplaySettings(),
+        StorageService.getWarningSettings(),
+        StorageService.getReflectionSettings(),
+        StorageService.getCheckInSettings(),
+        StorageService.getLeaveNudgeSettings(),
       ]);
 
       setCustomSounds(sounds);
       setSelectedSound(selected || DEFAULT_SOUNDS[0]);
       setBackgroundImage(image);
       setCurrentLanguage(language);
+      setBreakSettings(loadedBreakSettings);
+      setGoalSettings(loadedGoalSettings);
+      setDisplaySettings(loadedDisplaySettings);
+      setWarningSettings(loadedWarningSettings);
+      setReflectionSettings(loadedReflectionSettings);
+      setCheckInSettings(loadedCheckInSettings);
+      setLeaveNudgeSettings(loadedLeaveNudgeSettings);
     } catch (error) {
       console.error('Error loading settings:', error);
     }
@@ -264,7 +347,74 @@ function SettingsScreen() {
     }
   };
 
+  const updateBreakSettings = async (updates: Partial<BreakSettings>) => {
+    const updated = { ...breakSettings, ...updates };
+    setBreakSettings(updated);
+    await StorageService.saveBreakSettings(updated);
+  };
+
+  const updateGoalSettings = async (updates: Partial<GoalSettings>) => {
+    const updated = { ...goalSettings, ...updates };
+    setGoalSettings(updated);
+    await StorageService.saveGoalSettings(updated);
+  };
+
+  const updateDisplaySettings = async (
+    updates: Partial<TimerDisplaySettings>
+  ) => {
+    const updated = { ...displaySettings, ...updates };
+    setDisplaySettings(updated);
+    await StorageService.saveTimerDisplaySettings(updated);
+  };
+
+  const updateWarningSettings = async (updates: Partial<WarningSettings>) => {
+    const updated = { ...warningSettings, ...updates };
+    setWarningSettings(updated);
+    await StorageService.saveWarningSettings(updated);
+  };
+
+  const updateReflectionSettings = async (
+    updates: Partial<ReflectionSettings>
+  ) => {
+    const updated = { ...reflectionSettings, ...updates };
+    setReflectionSettings(updated);
+    await StorageService.saveReflectionSettings(updated);
+  };
+
+  const updateLeaveNudgeSettings = async (
+    updates: Partial<LeaveNudgeSettings>
+  ) => {
+    const updated = { ...leaveNudgeSettings, ...updates };
+    setLeaveNudgeSettings(updated);
+    await StorageService.saveLeaveNudgeSettings(updated);
+  };
+
+  const updateCheckInSettings = async (updates: Partial<CheckInSettings>) => {
+    const updated = { ...checkInSettings, ...updates };
+    setCheckInSettings(updated);
+    await StorageService.saveCheckInSettings(updated);
+  };
+
+  const addWarningOffset = () => {
+    if (warningSettings.offsetsMinutes.includes(newWarningMinutes)) return;
+    updateWarningSettings({
+      offsetsMinutes: [
+        ...warningSettings.offsetsMinutes,
+        newWarningMinutes,
+      ].sort((a, b) => b - a),
+    });
+  };
+
+  const removeWarningOffset = (minutes: number) => {
+    updateWarningSettings({
+      offsetsMinutes: warningSettings.offsetsMinutes.filter(
+        (offset) => offset !== minutes
+      ),
+    });
+  };
+
   const allSounds = [...DEFAULT_SOUNDS, ...customSounds];
+  const breakSoundId = breakSettings.sound?.id || DEFAULT_SOUNDS[1]?.id;
 
   return (
     <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
@@ -435,6 +585,354 @@ function SettingsScreen() {
         </View>
       </View>
 
+      {/* Timer Display Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('timerDisplay')}</Text>
+        <Text style={styles.sectionDescription}>{t('timerDisplayDesc')}</Text>
+
+        <View style={[styles.soundChips, styles.chipGroup]}>
+          {displayStyles.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.soundChip,
+                displaySettings.style === option.value &&
+                  styles.soundChipSelected,
+              ]}
+              onPress={() => updateDisplaySettings({ style: option.value })}
+            >
+              <Text
+                style={[
+                  styles.soundChipText,
+                  displaySettings.style === option.value &&
+                    styles.soundChipTextSelected,
+                ]}
+              >
+                {t(option.labelKey)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.stepperRow}>
+          <View style={styles.switchLabel}>
+            <Text style={styles.switchTitle}>{t('hideDigits')}</Text>
+            <Text style={styles.switchDescription}>{t('hideDigitsDesc')}</Text>
+          </View>
+          <Switch
+            value={displaySettings.hideDigitsDuringFocus}
+            onValueChange={(value) =>
+              updateDisplaySettings({ hideDigitsDuringFocus: value })
+            }
+            trackColor={{ false: '#E5E7EB', true: '#C4B5FD' }}
+            thumbColor={
+              displaySettings.hideDigitsDuringFocus ? '#7C3AED' : '#F9FAFB'
+            }
+          />
+        </View>
+      </View>
+
+      {/* Transition Warnings Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('transitionWarnings')}</Text>
+        <Text style={styles.sectionDescription}>
+          {t('transitionWarningsDesc')}
+        </Text>
+
+        <Text style={styles.customSoundTitle}>{t('warnBefore')}</Text>
+        <View style={[styles.soundChips, styles.chipGroup]}>
+          {warningSettings.offsetsMinutes.length === 0 ? (
+            <Text style={styles.switchDescription}>{t('noWarnings')}</Text>
+          ) : (
+            warningSettings.offsetsMinutes.map((offset) => (
+              <TouchableOpacity
+                key={offset}
+                style={[
+                  styles.soundChip,
+                  styles.soundChipSelected,
+                  styles.iconChip,
+                ]}
+                onPress={() => removeWarningOffset(offset)}
+              >
+                <Text
+                  style={[styles.soundChipText, styles.soundChipTextSelected]}
+                >
+                  {offset} {t('minutesShort')}
+                </Text>
+                <X size={14} color="#7C3AED" />
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+
+        <View style={styles.stepperRow}>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              style={styles.stepButton}
+              onPress={() =>
+                setNewWarningMinutes(Math.max(1, newWarningMinutes - 1))
+              }
+            >
+              <Minus size={16} color="#7C3AED" />
+            </TouchableOpacity>
+            <Text style={styles.stepperValue}>
+              {newWarningMinutes} {t('minutesShort')}
+            </Text>
+            <TouchableOpacity
+              style={styles.stepButton}
+              onPress={() =>
+                setNewWarningMinutes(Math.min(60, newWarningMinutes + 1))
+              }
+            >
+              <Plus size={16} color="#7C3AED" />
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity
+            style={[styles.soundChip, styles.iconChip]}
+            onPress={addWarningOffset}
+          >
+            <Plus size={14} color="#1F2937" />
+            <Text style={styles.soundChipText}>{t('addWarning')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.customSoundTitle}>{t('warningFeedback')}</Text>
+        <View style={styles.soundChips}>
+          {feedbackOptions.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.soundChip,
+                warningSettings.feedback === option.value &&
+                  styles.soundChipSelected,
+              ]}
+              onPress={() => updateWarningSettings({ feedback: option.value })}
+            >
+              <Text
+                style={[
+                  styles.soundChipText,
+                  warningSettings.feedback === option.value &&
+                    styles.soundChipTextSelected,
+                ]}
+              >
+                {t(option.labelKey)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {/* Leave-app Reminders Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('leaveNudges')}</Text>
+        <Text style={styles.sectionDescription}>{t('leaveNudgesDesc')}</Text>
+
+        <View style={styles.stepperRow}>
+          <View style={styles.switchLabel}>
+            <Text style={styles.switchTitle}>{t('nudgeWhenAway')}</Text>
+            <Text style={styles.switchDescription}>
+              {t('nudgeWhenAwayDesc')}
+            </Text>
+          </View>
+          <Switch
+            value={leaveNudgeSettings.enabled}
+            onValueChange={(value) =>
+              updateLeaveNudgeSettings({ enabled: value })
+            }
+            trackColor={{ false: '#E5E7EB', true: '#C4B5FD' }}
+            thumbColor={leaveNudgeSettings.enabled ? '#7C3AED' : '#F9FAFB'}
+          />
+        </View>
+
+        {leaveNudgeSettings.enabled && (
+          <>
+            <Text style={styles.customSoundTitle}>{t('nudgeAfter')}</Text>
+            <View style={styles.soundChips}>
+              {nudgeGraceOptions.map((seconds) => (
+                <TouchableOpacity
+                  key={seconds}
+                  style={[
+                    styles.soundChip,
+                    leaveNudgeSettings.graceSeconds === seconds &&
+                      styles.soundChipSelected,
+                  ]}
+                  onPress={() =>
+                    updateLeaveNudgeSettings({ graceSeconds: seconds })
+                  }
+                >
+                  <Text
+                    style={[
+                      styles.soundChipText,
+                      leaveNudgeSettings.graceSeconds === seconds &&
+                        styles.soundChipTextSelected,
+                    ]}
+                  >
+                    {seconds < 60 ? `${seconds}s` : `${seconds / 60} min`}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+      </View>
+
+      {/* Break Settings Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('breaks')}</Text>
+        <Text style={styles.sectionDescription}>{t('breaksDesc')}</Text>
+
+        <View style={styles.stepperRow}>
+          <Text style={styles.stepperLabel}>{t('defaultBreakLength')}</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              style={styles.stepButton}
+              onPress={() =>
+                updateBreakSettings({
+                  defaultMinutes: Math.max(1, breakSettings.defaultMinutes - 1),
+                })
+              }
+            >
+              <Minus size={16} color="#7C3AED" />
+            </TouchableOpacity>
+            <Text style={styles.stepperValue}>
+              {breakSettings.defaultMinutes} {t('minutesShort')}
+            </Text>
+            <TouchableOpacity
+              style={styles.stepButton}
+              onPress={() =>
+                updateBreakSettings({
+                  defaultMinutes: Math.min(
+                    60,
+                    breakSettings.defaultMinutes + 1
+                  ),
+                })
+              }
+            >
+              <Plus size={16} color="#7C3AED" />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <Text style={styles.customSoundTitle}>{t('breakEndSound')}</Text>
+        <View style={styles.soundChips}>
+          {allSounds.map((sound) => (
+            <TouchableOpacity
+              key={sound.id}
+              style={[
+                styles.soundChip,
+                breakSoundId === sound.id && styles.soundChipSelected,
+              ]}
+              onPress={() => updateBreakSettings({ sound })}
+            >
+              <Text
+                style={[
+                  styles.soundChipText,
+                  breakSoundId === sound.id && styles.soundChipTextSelected,
+                ]}
+              >
+                {sound.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {/* Daily Goal Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('dailyGoal')}</Text>
+        <Text style={styles.sectionDescription}>{t('dailyGoalDesc')}</Text>
+
+        <View style={styles.stepperRow}>
+          <Text style={styles.stepperLabel}>{t('dailyGoalMinutes')}</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              style={styles.stepButton}
+              onPress={() =>
+                updateGoalSettings({
+                  dailyMinutes: Math.max(5, goalSettings.dailyMinutes - 5),
+                })
+              }
+            >
+              <Minus size={16} color="#7C3AED" />
+            </TouchableOpacity>
+            <Text style={styles.stepperValue}>
+              {goalSettings.dailyMinutes} {t('minutesShort')}
+            </Text>
+            <TouchableOpacity
+              style={styles.stepButton}
+              onPress={() =>
+                updateGoalSettings({
+                  dailyMinutes: Math.min(480, goalSettings.dailyMinutes + 5),
+                })
+              }
+            >
+              <Plus size={16} color="#7C3AED" />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.stepperRow}>
+          <View style={styles.switchLabel}>
+            <Text style={styles.switchTitle}>{t('streakFreeze')}</Text>
+            <Text style={styles.switchDescription}>
+              {t('streakFreezeDesc')}
+            </Text>
+          </View>
+          <Switch
+            value={goalSettings.freezeEnabled}
+            onValueChange={(value) =>
+              updateGoalSettings({ freezeEnabled: value })
+            }
+            trackColor={{ false: '#E5E7EB', true: '#C4B5FD' }}
+            thumbColor={goalSettings.freezeEnabled ? '#7C3AED' : '#F9FAFB'}
+          />
+        </View>
+      </View>
+
+      {/* Pre-session Check-in Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('sessionCheckIn')}</Text>
+        <Text style={styles.sectionDescription}>{t('sessionCheckInDesc')}</Text>
+
+        <View style={styles.stepperRow}>
+          <View style={styles.switchLabel}>
+            <Text style={styles.switchTitle}>{t('askCheckIn')}</Text>
+            <Text style={styles.switchDescription}>{t('askCheckInDesc')}</Text>
+          </View>
+          <Switch
+            value={checkInSettings.enabled}
+            onValueChange={(value) => updateCheckInSettings({ enabled: value })}
+            trackColor={{ false: '#E5E7EB', true: '#C4B5FD' }}
+            thumbColor={checkInSettings.enabled ? '#7C3AED' : '#F9FAFB'}
+          />
+        </View>
+      </View>
+
+      {/* Session Reflection Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('sessionReflection')}</Text>
+        <Text style={styles.sectionDescription}>
+          {t('sessionReflectionDesc')}
+        </Text>
+
+        <View style={styles.stepperRow}>
+          <View style={styles.switchLabel}>
+            <Text style={styles.switchTitle}>{t('askReflection')}</Text>
+            <Text style={styles.switchDescription}>
+              {t('askReflectionDesc')}
+            </Text>
+          </View>
+          <Switch
+            value={reflectionSettings.enabled}
+            onValueChange={(value) =>
+              updateReflectionSettings({ enabled: value })
+            }
+            trackColor={{ false: '#E5E7EB', true: '#C4B5FD' }}
+            thumbColor={reflectionSettings.enabled ? '#7C3AED' : '#F9FAFB'}
+          />
+        </View>
+      </View>
+
       {/* ADHD Tips Section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>{t('adhdFeatures')}</Text>
@@ -703,6 +1201,84 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#7C3AED',
   },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+  },
+  stepperLabel: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#1F2937',
+    flex: 1,
+  },
+  switchLabel: {
+    flex: 1,
+    marginRight: 12,
+  },
+  switchTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#1F2937',
+    marginBottom: 4,
+  },
+  switchDescription: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepButton: {
+    padding: 8,
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+  },
+  stepperValue: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#7C3AED',
+    minWidth: 60,
+    textAlign: 'center',
+  },
+  soundChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  soundChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  soundChipSelected: {
+    borderColor: '#7C3AED',
+    backgroundColor: '#F8FAFC',
+  },
+  soundChipText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  soundChipTextSelected: {
+    color: '#7C3AED',
+  },
+  chipGroup: {
+    marginBottom: 20,
+  },
+  iconChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
   featuresList: {
     gap: 12,
   },
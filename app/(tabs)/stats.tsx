@@ -0,0 +1,440 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Platform,
+} from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import FocusBarChart from '@/components/FocusBarChart';
+import { ENERGY_LEVELS, MOOD_LEVELS } from '@/components/CheckInModal';
+import { StorageService, FocusSession, PauseReason } from '@/utils/storage';
+import {
+  StatsPeriod,
+  summarizeSessions,
+  getSessionsInPeriod,
+  getFocusBuckets,
+  summarizeByCheckIn,
+  CheckInLevelSummary,
+  countInterruptionsByReason,
+} from '@/utils/stats';
+import { PAUSE_REASON_LABELS } from '@/utils/sessions';
+
+const periods: {
+  value: StatsPeriod;
+  label: string;
+  current: string;
+  buckets: number;
+}[] = [
+  { value: 'day', label: 'Day', current: 'Today', buckets: 7 },
+  { value: 'week', label: 'Week', current: 'This week', buckets: 8 },
+  { value: 'month', label: 'Month', current: 'This month', buckets: 6 },
+];
+
+export default function StatsScreen() {
+  const [sessions, setSessions] = useState<FocusSession[]>([]);
+  const [period, setPeriod] = useState<StatsPeriod>('day');
+
+  // Tabs stay mounted, so reload whenever the tab comes into view
+  useFocusEffect(
+    useCallback(() => {
+      loadSessions();
+    }, [])
+  );
+
+  const loadSessions = async () => {
+    try {
+      const loadedSessions = await StorageService.getSessions();
+      setSessions(loadedSessions);
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    }
+  };
+
+  const formatDuration = (ms: number) => {
+    const totalMinutes = Math.round(ms / 60000);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    if (hours === 0) return `${minutes}m`;
+    return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+  };
+
+  const formatBucketLabel = (start: number) => {
+    const date = new Date(start);
+    if (period === 'day') {
+      return date.toLocaleDateString(undefined, { weekday: 'short' });
+    }
+    if (period === 'week') {
+      return `${date.getMonth() + 1}/${date.getDate()}`;
+    }
+    return date.toLocaleDateString(undefined, { month: 'short' });
+  };
+
+  const selectedPeriod = periods.find((p) => p.value === period)!;
+  const periodSessions = getSessionsInPeriod(sessions, period);
+  const current = summarizeSessions(periodSessions);
+  const overall = summarizeSessions(sessions);
+  const buckets = getFocusBuckets(sessions, period, selectedPeriod.buckets);
+  const chartData = buckets.map((bucket) => ({
+    label: formatBucketLabel(bucket.start),
+    value: bucket.totalFocused / 60000,
+  }));
+  const interruptionData = buckets.map((bucket) => ({
+    label: formatBucketLabel(bucket.start),
+    value: bucket.interruptionCount,
+  }));
+  const interruptions = countInterruptionsByReason(periodSessions);
+  const interruptionRows = [
+    ...(Object.keys(PAUSE_REASON_LABELS) as PauseReason[]).map((reason) => ({
+      label: PAUSE_REASON_LABELS[reason],
+      count: interruptions.reasons[reason],
+    })),
+    { label: '⏸️ Paused, no reason', count: interruptions.untagged },
+    { label: '↗️ Left the app', count: interruptions.appSwitches },
+  ].filter((row) => row.count > 0);
+
+  // Check-ins are sparse, so correlate across all sessions
+  const checkInGroups = [
+    {
+      title: 'Energy',
+      levels: ENERGY_LEVELS,
+      rows: summarizeByCheckIn(sessions, 'energy'),
+    },
+    {
+      title: 'Mood',
+      levels: MOOD_LEVELS,
+      rows: summarizeByCheckIn(sessions, 'mood'),
+    },
+  ].filter((group) => group.rows.length > 0);
+
+  const renderCheckInRow = (
+    row: CheckInLevelSummary,
+    levels: { value: number; emoji: string }[]
+  ) => (
+    <View key={row.level} style={styles.checkInRow}>
+      <Text style={styles.checkInLevel}>
+        {levels.find((level) => level.value === row.level)?.emoji} {row.level}
+      </Text>
+      <Text style={styles.checkInCell}>{row.sessionCount}</Text>
+      <Text style={styles.checkInCell}>
+        {Math.round(row.completionRate * 100)}%
+      </Text>
+      <Text style={styles.checkInCell}>
+        {row.averageFocusRating === null
+          ? '–'
+          : row.averageFocusRating.toFixed(1)}
+      </Text>
+    </View>
+  );
+
+  const summaryCards = [
+    {
+      label: 'Focused',
+      value: formatDuration(current.totalFocused),
+    },
+    {
+      label: 'Sessions',
+      value: current.sessionCount.toString(),
+    },
+    {
+      label: 'Avg. session',
+      value: formatDuration(current.averageSessionLength),
+    },
+    {
+      label: 'Completed',
+      value: `${Math.round(current.completionRate * 100)}%`,
+    },
+    {
+      label: 'Interruptions',
+      value: current.interruptionCount.toString(),
+    },
+    {
+      label: 'Interruptions / session',
+      value: current.averageInterruptions.toFixed(1),
+    },
+  ];
+
+  return (
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Stats</Text>
+        <Text style={styles.subtitle}>See how your focus adds up</Text>
+      </View>
+
+      <View style={styles.periodSelector}>
+        {periods.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            style={[
+              styles.periodButton,
+              period === option.value && styles.periodButtonActive,
+            ]}
+            onPress={() => setPeriod(option.value)}
+          >
+            <Text
+              style={[
+                styles.periodButtonText,
+                period === option.value && styles.periodButtonTextActive,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.sectionTitle}>{selectedPeriod.current}</Text>
+      <View style={styles.summaryGrid}>
+        {summaryCards.map((card) => (
+          <View key={card.label} style={styles.summaryCard}>
+            <Text style={styles.summaryValue}>{card.value}</Text>
+            <Text style={styles.summaryLabel}>{card.label}</Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.chartCard}>
+        <Text style={styles.chartTitle}>Minutes focused</Text>
+        <FocusBarChart data={chartData} />
+      </View>
+
+      <View style={styles.chartCard}>
+        <Text style={styles.chartTitle}>Interruptions</Text>
+        <FocusBarChart data={interruptionData} height={140} />
+        {interruptionRows.map((row) => (
+          <View key={row.label} style={styles.allTimeRow}>
+            <Text style={styles.allTimeLabel}>{row.label}</Text>
+            <Text style={styles.allTimeValue}>{row.count}</Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.chartCard}>
+        <Text style={styles.chartTitle}>All time</Text>
+        <View style={styles.allTimeRow}>
+          <Text style={styles.allTimeLabel}>Total focus</Text>
+          <Text style={styles.allTimeValue}>
+            {formatDuration(overall.totalFocused)}
+          </Text>
+        </View>
+        <View style={styles.allTimeRow}>
+          <Text style={styles.allTimeLabel}>Sessions</Text>
+          <Text style={styles.allTimeValue}>{overall.sessionCount}</Text>
+        </View>
+        <View style={styles.allTimeRow}>
+          <Text style={styles.allTimeLabel}>Average session</Text>
+          <Text style={styles.allTimeValue}>
+            {formatDuration(overall.averageSessionLength)}
+          </Text>
+        </View>
+        <View style={styles.allTimeRow}>
+          <Text style={styles.allTimeLabel}>Completion rate</Text>
+          <Text style={styles.allTimeValue}>
+            {Math.round(overall.completionRate * 100)}%
+          </Text>
+        </View>
+        <View style={styles.allTimeRow}>
+          <Text style={styles.allTimeLabel}>Interruptions per session</Text>
+          <Text style={styles.allTimeValue}>
+            {overall.averageInterruptions.toFixed(1)}
+          </Text>
+        </View>
+      </View>
+
+      {checkInGroups.length > 0 && (
+        <View style={styles.chartCard}>
+          <Text style={styles.chartTitle}>When you work best</Text>
+          {checkInGroups.map((group) => (
+            <View key={group.title} style={styles.checkInGroup}>
+              <View style={styles.checkInRow}>
+                <Text style={[styles.checkInLevel, styles.checkInHeader]}>
+                  {group.title}
+                </Text>
+                <Text style={[styles.checkInCell, styles.checkInHeader]}>
+                  Sessions
+                </Text>
+                <Text style={[styles.checkInCell, styles.checkInHeader]}>
+                  Completed
+                </Text>
+                <Text style={[styles.checkInCell, styles.checkInHeader]}>
+                  Focus
+                </Text>
+              </View>
+              {group.rows.map((row) => renderCheckInRow(row, group.levels))}
+            </View>
+          ))}
+          <Text style={styles.checkInHint}>
+            Based on your check-ins before each session. Focus is the average
+            rating from your reflections, out of 5.
+          </Text>
+        </View>
+      )}
+
+      {sessions.length === 0 && (
+        <Text style={styles.emptyText}>
+          Complete a focus session to start building your stats.
+        </Text>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'web' ? 40 : 60,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontFamily: 'SpaceGrotesk-Bold',
+    fontSize: 32,
+    color: '#7C3AED',
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  periodSelector: {
+    flexDirection: 'row',
+    backgroundColor: '#F3F4F6',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 24,
+  },
+  periodButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  periodButtonActive: {
+    backgroundColor: '#FFFFFF',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  periodButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  periodButtonTextActive: {
+    color: '#7C3AED',
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 24,
+  },
+  summaryCard: {
+    flexBasis: '47%',
+    flexGrow: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  summaryValue: {
+    fontFamily: 'SpaceGrotesk-Bold',
+    fontSize: 24,
+    color: '#1F2937',
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  summaryLabel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  chartCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  chartTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 16,
+    color: '#1F2937',
+    marginBottom: 16,
+  },
+  allTimeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  allTimeLabel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  allTimeValue: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  checkInGroup: {
+    marginBottom: 16,
+  },
+  checkInRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  checkInHeader: {
+    fontFamily: 'Inter-SemiBold',
+    color: '#6B7280',
+  },
+  checkInLevel: {
+    flex: 1,
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  checkInCell: {
+    width: 76,
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#1F2937',
+    textAlign: 'right',
+  },
+  checkInHint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: '#9CA3AF',
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 40,
+  },
+});
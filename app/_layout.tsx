@@ -1,6 +1,8 @@
 import { useEffect } from 'react';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { StyleSheet } from 'react-native';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import {
   useFonts,
@@ -11,22 +13,7 @@ import {
 import { SpaceGrotesk_700Bold } from '@expo-google-fonts/space-grotesk';
 import { SplashScreen } from 'expo-router';
 import { AudioService } from '@/utils/audio';
-import { Platform } from 'react-native';
-import * as TaskManager from 'expo-task-manager';
-import * as BackgroundFetch from 'expo-background-fetch';
-
-// Define background task for audio
-const BACKGROUND_AUDIO_TASK = 'background-audio-task';
-
-TaskManager.defineTask(BACKGROUND_AUDIO_TASK, async () => {
-  try {
-    // This task will keep the audio service alive in background
-    return BackgroundFetch.BackgroundFetchResult.NewData;
-  } catch (error) {
-    console.error('Background task error:', error);
-    return BackgroundFetch.BackgroundFetchResult.Failed;
-  }
-});
+import { NotificationService } from '@/utils/notifications';
 
 export default function Layout() {
   useFrameworkReady();
@@ -42,15 +29,7 @@ export default function Layout() {
     if (fontsLoaded || fontError) {
       SplashScreen.hideAsync();
       AudioService.initializeAudio();
-
-      // Register background task for mobile platforms
-      if (Platform.OS !== 'web') {
-        BackgroundFetch.registerTaskAsync(BACKGROUND_AUDIO_TASK, {
-          minimumInterval: 15000, // 15 seconds
-          stopOnTerminate: false,
-          startOnBoot: true,
-        }).catch(console.error);
-      }
+      NotificationService.initialize();
     }
   }, [fontsLoaded, fontError]);
 
@@ -59,12 +38,19 @@ export default function Layout() {
   }
 
   return (
-    <>
+    <GestureHandlerRootView style={styles.root}>
       <Stack screenOptions={{ headerShown: false }}>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="history" options={{ headerShown: false }} />
         <Stack.Screen name="+not-found" />
       </Stack>
       <StatusBar style="auto" />
-    </>
+    </GestureHandlerRootView>
   );
 }
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+});
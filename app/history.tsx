@@ -0,0 +1,445 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { ChevronLeft, Pencil, Trash2 } from 'lucide-react-native';
+import { router } from 'expo-router';
+import SessionEditModal from '@/components/SessionEditModal';
+import {
+  StorageService,
+  FocusSession,
+  SessionReflection,
+  PauseReason,
+} from '@/utils/storage';
+import { PAUSE_REASON_LABELS, groupSessionsByDay } from '@/utils/sessions';
+
+function HistoryScreen() {
+  const [sessions, setSessions] = useState<FocusSession[]>([]);
+  const [editingSession, setEditingSession] = useState<FocusSession | null>(
+    null
+  );
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      const loadedSessions = await StorageService.getSessions();
+      setSessions(loadedSessions);
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    }
+  };
+
+  const removeSession = async (id: string) => {
+    const confirmRemove = async () => {
+      await StorageService.removeSession(id);
+      setSessions((prev) => prev.filter((session) => session.id !== id));
+    };
+
+    if (Platform.OS === 'web') {
+      if (confirm('Are you sure you want to delete this session?')) {
+        confirmRemove();
+      }
+    } else {
+      Alert.alert(
+        'Delete Session',
+        'Are you sure you want to delete this session?',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Delete',
+            style: 'destructive',
+            onPress: confirmRemove,
+          },
+        ]
+      );
+    }
+  };
+
+  const updateSession = async (id: string, updates: Partial<FocusSession>) => {
+    await StorageService.updateSession(id, updates);
+    setSessions((prev) =>
+      prev.map((session) =>
+        session.id === id ? { ...session, ...updates } : session
+      )
+    );
+  };
+
+  const formatDay = (day: string) => {
+    const [year, month, date] = day.split('-').map(Number);
+    return new Date(year, month - 1, date).toLocaleDateString(undefined, {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  const formatClock = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString(undefined, {
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  const formatMinutes = (ms: number) => {
+    const minutes = Math.round(ms / 60000);
+    return minutes < 1 ? '<1 min' : `${minutes} min`;
+  };
+
+  // e.g. ": 📱 Phone ×2, 🚻 Bathroom"
+  const formatPauseReasons = (session: FocusSession) => {
+    const counts: Partial<Record<PauseReason, number>> = {};
+    session.pauses.forEach((pause) => {
+      if (pause.reason) {
+        counts[pause.reason] = (counts[pause.reason] ?? 0) + 1;
+      }
+    });
+    const parts = (Object.keys(counts) as PauseReason[]).map((reason) =>
+      counts[reason]! > 1
+        ? `${PAUSE_REASON_LABELS[reason]} ×${counts[reason]}`
+        : PAUSE_REASON_LABELS[reason]
+    );
+    return parts.length > 0 ? `: ${parts.join(', ')}` : '';
+  };
+
+  // e.g. "Focus 4/5 · Finished"
+  const formatReflection = (reflection: SessionReflection) => {
+    const parts = [];
+    if (reflection.focusRating !== null) {
+      parts.push(`Focus ${reflection.focusRating}/5`);
+    }
+    if (reflection.finished !== null) {
+      parts.push(reflection.finished ? 'Finished' : 'Not finished');
+    }
+    return parts.length > 0 ? parts.join(' · ') : 'Reflection';
+  };
+
+  const groups = groupSessionsByDay(sessions);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <ChevronLeft size={24} color="#7C3AED" />
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.title}>Session History</Text>
+          <Text style={styles.subtitle}>Every focus session you've logged</Text>
+        </View>
+      </View>
+
+      <ScrollView style={styles.list} showsVerticalScrollIndicator={false}>
+        {groups.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyTitle}>No sessions yet</Text>
+            <Text style={styles.emptyDescription}>
+              Finished and abandoned focus sessions will show up here.
+            </Text>
+          </View>
+        ) : (
+          groups.map(({ day, sessions: daySessions }) => {
+            const totalFocused = daySessions.reduce(
+              (total, session) => total + session.actualDuration,
+              0
+            );
+
+            return (
+              <View key={day} style={styles.daySection}>
+                <View style={styles.dayHeader}>
+                  <Text style={styles.dayTitle}>{formatDay(day)}</Text>
+                  <Text style={styles.dayTotal}>
+                    {formatMinutes(totalFocused)}
+                  </Text>
+                </View>
+
+                {daySessions.map((session) => (
+                  <View key={session.id} style={styles.sessionItem}>
+                    <View style={styles.sessionContent}>
+                      <Text style={styles.sessionTask}>{session.task}</Text>
+                      <Text style={styles.sessionMeta}>
+                        {formatClock(session.startedAt)} –{' '}
+                        {formatClock(session.endedAt)} ·{' '}
+                        {formatMinutes(session.actualDuration)}
+                        {session.flow
+                          ? ' · flow'
+                          : ` of ${formatMinutes(session.plannedDuration)}`}
+                        {session.overtime
+                          ? ` · +${formatMinutes(session.overtime)} overtime`
+                          : ''}
+                      </Text>
+                      {session.completedSubtasks &&
+                        session.completedSubtasks.length > 0 && (
+                          <Text style={styles.sessionSubtasks}>
+                            ✓ {session.completedSubtasks.join(' · ')}
+                          </Text>
+                        )}
+                      {session.parked && session.parked.length > 0 && (
+                        <Text style={styles.sessionParked}>
+                          💭{' '}
+                          {session.parked
+                            .map((thought) => thought.text)
+                            .join(' · ')}
+                        </Text>
+                      )}
+                      {session.reflection && (
+                        <View style={styles.reflection}>
+                          <Text style={styles.reflectionSummary}>
+                            {formatReflection(session.reflection)}
+                          </Text>
+                          {session.reflection.note ? (
+                            <Text style={styles.reflectionNote}>
+                              “{session.reflection.note}”
+                            </Text>
+                          ) : null}
+                        </View>
+                      )}
+                      <View style={styles.sessionTags}>
+                        <Text
+                          style={[
+                            styles.outcomeBadge,
+                            session.outcome === 'abandoned' &&
+                              styles.outcomeBadgeAbandoned,
+                          ]}
+                        >
+                          {session.outcome === 'completed'
+                            ? 'Completed'
+                            : 'Abandoned'}
+                        </Text>
+                        {session.pauses.length > 0 && (
+                          <Text style={styles.sessionTag}>
+                            {session.pauses.length}{' '}
+                            {session.pauses.length === 1 ? 'pause' : 'pauses'}
+                            {formatPauseReasons(session)}
+                          </Text>
+                        )}
+                        {session.distractions &&
+                          session.distractions.length > 0 && (
+                            <Text style={styles.sessionTag}>
+                              ↗️ left the app {session.distractions.length}×
+                            </Text>
+                          )}
+                        {session.rewardActivity && (
+                          <Text style={styles.sessionTag}>
+                            {session.rewardActivity.emoji}{' '}
+                            {session.rewardActivity.name}
+                          </Text>
+                        )}
+                      </View>
+                    </View>
+                    <View style={styles.sessionActions}>
+                      <TouchableOpacity
+                        style={styles.editButton}
+                        onPress={() => setEditingSession(session)}
+                      >
+                        <Pencil size={16} color="#7C3AED" />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.removeButton}
+                        onPress={() => removeSession(session.id)}
+                      >
+                        <Trash2 size={16} color="#EF4444" />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <SessionEditModal
+        session={editingSession}
+        onClose={() => setEditingSession(null)}
+        onSave={updateSession}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'web' ? 40 : 60,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 24,
+  },
+  backButton: {
+    padding: 8,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+  },
+  title: {
+    fontFamily: 'SpaceGrotesk-Bold',
+    fontSize: 28,
+    color: '#7C3AED',
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  list: {
+    flex: 1,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 20,
+  },
+  emptyTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  emptyDescription: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  daySection: {
+    marginBottom: 24,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+    paddingHorizontal: 4,
+  },
+  dayTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: '#1F2937',
+  },
+  dayTotal: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#7C3AED',
+  },
+  sessionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sessionContent: {
+    flex: 1,
+  },
+  sessionTask: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#1F2937',
+    marginBottom: 4,
+  },
+  sessionMeta: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  sessionSubtasks: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: '#059669',
+    marginBottom: 8,
+  },
+  sessionParked: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  reflection: {
+    backgroundColor: '#F5F3FF',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 8,
+  },
+  reflectionSummary: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: '#7C3AED',
+  },
+  reflectionNote: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: '#4B5563',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  sessionTags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  outcomeBadge: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 12,
+    color: '#059669',
+    backgroundColor: '#ECFDF5',
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  outcomeBadgeAbandoned: {
+    color: '#DC2626',
+    backgroundColor: '#FEF2F2',
+  },
+  sessionTag: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#4B5563',
+    backgroundColor: '#F3F4F6',
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  sessionActions: {
+    gap: 8,
+    marginLeft: 12,
+  },
+  editButton: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  removeButton: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#FEF2F2',
+  },
+});
+
+export default HistoryScreen;
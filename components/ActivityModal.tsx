@@ -10,49 +10,79 @@ import {
   Platform,
   ScrollView,
 } from 'react-native';
-import { X, Plus } from 'lucide-react-native';
+import { X, Plus, Check } from 'lucide-react-native';
 import { Activity, StorageService, CustomCategory } from '@/utils/storage';
+import { REWARD_FREQUENCIES } from '@/utils/rewards';
 
 interface ActivityModalProps {
   visible: boolean;
+  activity?: Activity | null; // set to edit an existing activity
   onClose: () => void;
-  onAdd: (activity: Activity) => void;
+  onSave: (activity: Activity) => void; // adds or updates
 }
 
-export default function ActivityModal({ visible, onClose, onAdd }: ActivityModalProps) {
+const BREAK_LENGTH_OPTIONS = [5, 10, 15, 20, 30];
+
+export default function ActivityModal({ visible, activity = null, onClose, onSave }: ActivityModalProps) {
   const [activityName, setActivityName] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('recreation');
+  const [emoji, setEmoji] = useState(''); // empty uses the category emoji
   const [categories, setCategories] = useState<CustomCategory[]>([]);
+  const [breakMinutes, setBreakMinutes] = useState<number | undefined>(undefined);
+  const [weight, setWeight] = useState(1);
 
   useEffect(() => {
     if (visible) {
       loadCategories();
+      setActivityName(activity?.name ?? '');
+      setSelectedCategory(activity?.category ?? 'recreation');
+      setEmoji(activity?.emoji ?? '');
+      setBreakMinutes(activity?.breakMinutes);
+      setWeight(activity?.weight ?? 1);
     }
-  }, [visible]);
+  }, [visible, activity]);
 
   const loadCategories = async () => {
     try {
       const allCategories = await StorageService.getAllCategories();
       setCategories(allCategories);
+      // The usual starting category may have been hidden
+      setSelectedCategory(current =>
+        allCategories.some(cat => cat.id === current) ? current : allCategories[0]?.id ?? current
+      );
     } catch (error) {
       console.error('Error loading categories:', error);
     }
   };
 
-  const handleAdd = () => {
+  const selectCategory = (category: CustomCategory) => {
+    // Keep a hand-picked emoji, but follow the category otherwise
+    const previous = categories.find(cat => cat.id === selectedCategory);
+    if (!emoji || emoji === previous?.emoji) {
+      setEmoji(category.emoji);
+    }
+    setSelectedCategory(category.id);
+  };
+
+  const handleSave = () => {
     if (activityName.trim()) {
       const selectedCat = categories.find(cat => cat.id === selectedCategory);
-      const newActivity: Activity = {
+      const base: Activity = activity ?? {
         id: `activity_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        name: activityName.trim(),
+        name: '',
         category: selectedCategory,
-        emoji: selectedCat?.emoji || '✨',
+        emoji: '',
         createdAt: Date.now(),
       };
       
-      onAdd(newActivity);
-      setActivityName('');
-      setSelectedCategory('recreation');
+      onSave({
+        ...base,
+        name: activityName.trim(),
+        category: selectedCategory,
+        emoji: emoji.trim() || selectedCat?.emoji || '✨',
+        breakMinutes,
+        weight: weight === 1 ? undefined : weight,
+      });
       onClose();
     } else {
       if (Platform.OS === 'web') {
@@ -63,26 +93,25 @@ export default function ActivityModal({ visible, onClose, onAdd }: ActivityModal
     }
   };
 
-  const handleClose = () => {
-    setActivityName('');
-    setSelectedCategory('recreation');
-    onClose();
-  };
 
   return (
     <Modal
       visible={visible}
       animationType="slide"
       presentationStyle="pageSheet"
-      onRequestClose={handleClose}>
+      onRequestClose={onClose}>
       <View style={styles.container}>
         <View style={styles.header}>
-          <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
             <X size={24} color="#6B7280" />
           </TouchableOpacity>
-          <Text style={styles.title}>Add Activity</Text>
-          <TouchableOpacity onPress={handleAdd} style={styles.addButton}>
-            <Plus size={24} color="#7C3AED" />
+          <Text style={styles.title}>{activity ? 'Edit Activity' : 'Add Activity'}</Text>
+          <TouchableOpacity onPress={handleSave} style={styles.addButton}>
+            {activity ? (
+              <Check size={24} color="#7C3AED" />
+            ) : (
+              <Plus size={24} color="#7C3AED" />
+            )}
           </TouchableOpacity>
         </View>
 
@@ -96,7 +125,7 @@ export default function ActivityModal({ visible, onClose, onAdd }: ActivityModal
               placeholder="Enter a motivational activity..."
               placeholderTextColor="#9CA3AF"
               maxLength={50}
-              autoFocus
+              autoFocus={!activity}
               multiline={false}
             />
           </View>
@@ -115,7 +144,7 @@ export default function ActivityModal({ visible, onClose, onAdd }: ActivityModal
                     styles.categoryOption,
                     selectedCategory === category.id && styles.selectedCategory,
                   ]}
-                  onPress={() => setSelectedCategory(category.id)}>
+                  onPress={() => selectCategory(category)}>
                   <Text style={styles.categoryEmoji}>{category.emoji}</Text>
                   <Text
                     style={[
@@ -129,10 +158,77 @@ export default function ActivityModal({ visible, onClose, onAdd }: ActivityModal
             </View>
           </View>
 
+          <View style={styles.section}>
+            <Text style={styles.label}>Emoji</Text>
+            <TextInput
+              style={[styles.input, styles.emojiInput]}
+              value={emoji}
+              onChangeText={setEmoji}
+              placeholder={categories.find(cat => cat.id === selectedCategory)?.emoji || '✨'}
+              placeholderTextColor="#9CA3AF"
+              maxLength={8}
+            />
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.label}>Break Length</Text>
+            <Text style={styles.categoryHint}>
+              How long a break with this activity should last
+            </Text>
+
+            <View style={styles.categoriesGrid}>
+              {[undefined, ...BREAK_LENGTH_OPTIONS].map((minutes) => (
+                <TouchableOpacity
+                  key={minutes ?? 'default'}
+                  style={[
+                    styles.breakOption,
+                    breakMinutes === minutes && styles.selectedCategory,
+                  ]}
+                  onPress={() => setBreakMinutes(minutes)}>
+                  <Text
+                    style={[
+                      styles.categoryText,
+                      breakMinutes === minutes && styles.selectedCategoryText,
+                    ]}>
+                    {minutes ? `${minutes} min` : 'Default'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.label}>How Often</Text>
+            <Text style={styles.categoryHint}>
+              How often this activity should come up as a reward
+            </Text>
+
+            <View style={styles.categoriesGrid}>
+              {REWARD_FREQUENCIES.map((frequency) => (
+                <TouchableOpacity
+                  key={frequency.value}
+                  style={[
+                    styles.breakOption,
+                    weight === frequency.value && styles.selectedCategory,
+                  ]}
+                  onPress={() => setWeight(frequency.value)}>
+                  <Text
+                    style={[
+                      styles.categoryText,
+                      weight === frequency.value && styles.selectedCategoryText,
+                    ]}>
+                    {frequency.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
           <View style={styles.section}>
             <Text style={styles.hint}>
               Add activities that motivate you or bring you joy during breaks. 
-              These will be randomly suggested when your focus sessions end.
+              These will be suggested when your focus sessions end, without
+              repeating the same ones back to back.
             </Text>
           </View>
         </ScrollView>
@@ -192,6 +288,11 @@ const styles = StyleSheet.create({
     borderColor: '#E5E7EB',
     minHeight: 48,
   },
+  emojiInput: {
+    width: 72,
+    fontSize: 24,
+    textAlign: 'center',
+  },
   categoryHint: {
     fontFamily: 'Inter-Regular',
     fontSize: 14,
@@ -215,6 +316,14 @@ const styles = StyleSheet.create({
     minWidth: '45%',
     gap: 8,
   },
+  breakOption: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+  },
   selectedCategory: {
     borderColor: '#7C3AED',
     backgroundColor: '#F3F4F6',
@@ -6,63 +6,203 @@ import {
   TouchableOpacity,
   StyleSheet,
   Image,
+  ScrollView,
 } from 'react-native';
-import { X, RefreshCw } from 'lucide-react-native';
-import { Activity } from '@/utils/storage';
+import { X, RefreshCw, Play, Plus, Hourglass } from 'lucide-react-native';
+import { Activity, ParkedThought } from '@/utils/storage';
+import { TimerEngine } from '@/utils/timer';
+import { useTimer } from '@/hooks/useTimer';
+import { GoalStatus } from '@/utils/goals';
+import GoalProgress from '@/components/GoalProgress';
+import ParkedThoughtList from '@/components/ParkedThoughtList';
+
+export const BREAK_EXTEND_MINUTES = 5;
 
 interface BreakModalProps {
   visible: boolean;
   activity: Activity | null;
+  timer: TimerEngine;
+  isBreakOver: boolean;
   onClose: () => void;
-  onNewActivity: () => void;
+  onNewActivity?: () => void; // left out when there is nothing to swap to
+  onStartBreak: () => void;
+  onExtendBreak: () => void;
+  onEndBreak: () => void;
+  onStartFocus: () => void;
+  goalStatus?: GoalStatus | null;
+  completedSubtasks?: string[];
+  warningMessage?: string | null;
+  parkedThoughts?: ParkedThought[];
+  onConvertThought?: (thought: ParkedThought) => void;
+  onDiscardThought?: (thoughtId: string) => void;
+  onDismiss?: () => void; // iOS only, once the sheet is fully gone
 }
 
 export default function BreakModal({ 
   visible, 
   activity, 
+  timer,
+  isBreakOver,
   onClose, 
-  onNewActivity 
+  onNewActivity,
+  onStartBreak,
+  onExtendBreak,
+  onEndBreak,
+  onStartFocus,
+  goalStatus,
+  completedSubtasks = [],
+  warningMessage,
+  parkedThoughts = [],
+  onConvertThought = () => {},
+  onDiscardThought = () => {},
+  onDismiss,
 }: BreakModalProps) {
+  const { status, remaining } = useTimer(timer);
+  const isBreakActive = !isBreakOver && (status === 'running' || status === 'paused');
+
+  const formatTime = (ms: number) => {
+    const seconds = Math.ceil(ms / 1000);
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  };
+
   return (
     <Modal
       visible={visible}
       animationType="slide"
       presentationStyle="pageSheet"
-      onRequestClose={onClose}>
+      onRequestClose={onClose}
+      onDismiss={onDismiss}>
       <View style={styles.container}>
         <View style={styles.header}>
           <TouchableOpacity onPress={onClose} style={styles.closeButton}>
             <X size={24} color="#6B7280" />
           </TouchableOpacity>
-          <Text style={styles.title}>Break Time!</Text>
+          <Text style={styles.title}>
+            {isBreakOver ? 'Break Over!' : 'Break Time!'}
+          </Text>
           <View style={styles.placeholder} />
         </View>
 
-        <View style={styles.content}>
+        <ScrollView
+          style={styles.scroll}
+          contentContainerStyle={styles.content}
+          showsVerticalScrollIndicator={false}>
           <Image
             source={{ uri: 'https://images.pexels.com/photos/3184291/pexels-photo-3184291.jpeg?auto=compress&cs=tinysrgb&w=400' }}
             style={styles.image}
           />
           
-          <Text style={styles.subtitle}>Time for a reward activity</Text>
-          
-          {activity && (
-            <View style={styles.activityCard}>
-              <Text style={styles.activityEmoji}>{activity.emoji}</Text>
-              <Text style={styles.activityText}>{activity.name}</Text>
-              <Text style={styles.activityCategory}>{activity.category}</Text>
-            </View>
-          )}
+          {isBreakOver ? (
+            <>
+              <Text style={styles.subtitle}>
+                Ready to start your next focus session?
+              </Text>
 
-          <TouchableOpacity style={styles.refreshButton} onPress={onNewActivity}>
-            <RefreshCw size={20} color="#7C3AED" />
-            <Text style={styles.refreshText}>Get Another Activity</Text>
-          </TouchableOpacity>
+              <TouchableOpacity style={styles.doneButton} onPress={onStartFocus}>
+                <View style={styles.buttonContent}>
+                  <Play size={20} color="#FFFFFF" />
+                  <Text style={styles.doneButtonText}>Start Focusing</Text>
+                </View>
+              </TouchableOpacity>
 
-          <TouchableOpacity style={styles.doneButton} onPress={onClose}>
-            <Text style={styles.doneButtonText}>Done</Text>
-          </TouchableOpacity>
-        </View>
+              <TouchableOpacity style={styles.secondaryButton} onPress={onClose}>
+                <Text style={styles.secondaryButtonText}>Not Yet</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <Text style={styles.subtitle}>Time for a reward activity</Text>
+
+              {completedSubtasks.length > 0 && !isBreakActive && (
+                <View style={styles.subtaskSummary}>
+                  <Text style={styles.subtaskSummaryTitle}>Finished this session</Text>
+                  {completedSubtasks.map((title, index) => (
+                    <Text key={`${title}-${index}`} style={styles.subtaskSummaryItem}>
+                      ✓ {title}
+                    </Text>
+                  ))}
+                </View>
+              )}
+
+              {parkedThoughts.length > 0 && !isBreakActive && (
+                <View style={styles.parkedReview}>
+                  <Text style={styles.parkedReviewTitle}>
+                    Parked during your session
+                  </Text>
+                  <ScrollView style={styles.parkedList} nestedScrollEnabled>
+                    <ParkedThoughtList
+                      thoughts={parkedThoughts}
+                      onConvert={onConvertThought}
+                      onDiscard={onDiscardThought}
+                    />
+                  </ScrollView>
+                </View>
+              )}
+
+              {goalStatus && !isBreakActive && (
+                <View style={styles.goalProgress}>
+                  <GoalProgress status={goalStatus} />
+                </View>
+              )}
+
+              {activity && (
+                <View style={styles.activityCard}>
+                  <Text style={styles.activityEmoji}>{activity.emoji}</Text>
+                  <Text style={styles.activityText}>{activity.name}</Text>
+                  <Text style={styles.activityCategory}>{activity.category}</Text>
+                </View>
+              )}
+
+              <Text style={[styles.breakTimer, isBreakActive && styles.breakTimerActive]}>
+                {formatTime(remaining)}
+              </Text>
+
+              {isBreakActive && warningMessage && (
+                <View style={styles.warningBanner}>
+                  <Hourglass size={18} color="#92400E" />
+                  <Text style={styles.warningText}>{warningMessage}</Text>
+                </View>
+              )}
+
+              {isBreakActive ? (
+                <>
+                  <TouchableOpacity style={styles.refreshButton} onPress={onExtendBreak}>
+                    <Plus size={20} color="#7C3AED" />
+                    <Text style={styles.refreshText}>
+                      Extend Break ({BREAK_EXTEND_MINUTES} min)
+                    </Text>
+                  </TouchableOpacity>
+
+                  <TouchableOpacity style={styles.doneButton} onPress={onEndBreak}>
+                    <Text style={styles.doneButtonText}>End Break</Text>
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <>
+                  {onNewActivity && (
+                    <TouchableOpacity style={styles.refreshButton} onPress={onNewActivity}>
+                      <RefreshCw size={20} color="#7C3AED" />
+                      <Text style={styles.refreshText}>Get Another Activity</Text>
+                    </TouchableOpacity>
+                  )}
+
+                  <TouchableOpacity style={styles.doneButton} onPress={onStartBreak}>
+                    <View style={styles.buttonContent}>
+                      <Play size={20} color="#FFFFFF" />
+                      <Text style={styles.doneButtonText}>Start Break</Text>
+                    </View>
+                  </TouchableOpacity>
+
+                  <TouchableOpacity style={styles.secondaryButton} onPress={onEndBreak}>
+                    <Text style={styles.secondaryButtonText}>Skip Break</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </>
+          )}
+        </ScrollView>
       </View>
     </Modal>
   );
@@ -94,9 +234,13 @@ const styles = StyleSheet.create({
   placeholder: {
     width: 40,
   },
-  content: {
+  scroll: {
     flex: 1,
+  },
+  content: {
+    flexGrow: 1,
     padding: 20,
+    paddingBottom: 40,
     alignItems: 'center',
   },
   image: {
@@ -112,6 +256,45 @@ const styles = StyleSheet.create({
     marginBottom: 24,
     textAlign: 'center',
   },
+  subtaskSummary: {
+    width: '100%',
+    backgroundColor: '#ECFDF5',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  subtaskSummaryTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 14,
+    color: '#059669',
+    marginBottom: 8,
+  },
+  subtaskSummaryItem: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#1F2937',
+    marginBottom: 4,
+  },
+  parkedReview: {
+    width: '100%',
+    backgroundColor: '#F5F3FF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  parkedReviewTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 14,
+    color: '#7C3AED',
+    marginBottom: 8,
+  },
+  parkedList: {
+    maxHeight: 160,
+  },
+  goalProgress: {
+    width: '100%',
+    marginBottom: 24,
+  },
   activityCard: {
     backgroundColor: '#FFFFFF',
     borderRadius: 16,
@@ -145,6 +328,16 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     textTransform: 'capitalize',
   },
+  breakTimer: {
+    fontFamily: 'SpaceGrotesk-Bold',
+    fontSize: 48,
+    color: '#1F2937',
+    fontWeight: '700',
+    marginBottom: 24,
+  },
+  breakTimerActive: {
+    color: '#059669',
+  },
   refreshButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -178,4 +371,38 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#FFFFFF',
   },
+  buttonContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  secondaryButton: {
+    paddingVertical: 16,
+    paddingHorizontal: 32,
+    width: '100%',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  warningBanner: {
+    alignSelf: 'stretch',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FEF3C7',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  warningText: {
+    flex: 1,
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#92400E',
+  },
 });
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -10,13 +10,14 @@ import {
   Platform,
   ScrollView,
 } from 'react-native';
-import { X, Plus } from 'lucide-react-native';
+import { X, Plus, Check } from 'lucide-react-native';
 import { CustomCategory } from '@/utils/storage';
 
 interface CategoryModalProps {
   visible: boolean;
+  category?: CustomCategory | null; // set to edit an existing category
   onClose: () => void;
-  onAdd: (category: CustomCategory) => void;
+  onSave: (category: CustomCategory) => void; // adds or updates
 }
 
 const EMOJI_OPTIONS = [
@@ -31,23 +32,32 @@ const EMOJI_OPTIONS = [
   '🏔️', '🏖️', '🏝️', '🌊', '🌈', '⛅', '🌤️', '☀️', '🌙', '⭐',
 ];
 
-export default function CategoryModal({ visible, onClose, onAdd }: CategoryModalProps) {
+export default function CategoryModal({ visible, category = null, onClose, onSave }: CategoryModalProps) {
   const [categoryName, setCategoryName] = useState('');
   const [selectedEmoji, setSelectedEmoji] = useState('✨');
 
-  const handleAdd = () => {
+  useEffect(() => {
+    if (visible) {
+      setCategoryName(category?.name ?? '');
+      setSelectedEmoji(category?.emoji ?? '✨');
+    }
+  }, [visible, category]);
+
+  const handleSave = () => {
     if (categoryName.trim()) {
-      const newCategory: CustomCategory = {
+      const base: CustomCategory = category ?? {
         id: `custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        name: categoryName.trim(),
-        emoji: selectedEmoji,
+        name: '',
+        emoji: '',
         isDefault: false,
         createdAt: Date.now(),
       };
       
-      onAdd(newCategory);
-      setCategoryName('');
-      setSelectedEmoji('✨');
+      onSave({
+        ...base,
+        name: categoryName.trim(),
+        emoji: selectedEmoji,
+      });
       onClose();
     } else {
       if (Platform.OS === 'web') {
@@ -58,26 +68,24 @@ export default function CategoryModal({ visible, onClose, onAdd }: CategoryModal
     }
   };
 
-  const handleClose = () => {
-    setCategoryName('');
-    setSelectedEmoji('✨');
-    onClose();
-  };
-
   return (
     <Modal
       visible={visible}
       animationType="slide"
       presentationStyle="pageSheet"
-      onRequestClose={handleClose}>
+      onRequestClose={onClose}>
       <View style={styles.container}>
         <View style={styles.header}>
-          <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
             <X size={24} color="#6B7280" />
           </TouchableOpacity>
-          <Text style={styles.title}>Add Category</Text>
-          <TouchableOpacity onPress={handleAdd} style={styles.addButton}>
-            <Plus size={24} color="#7C3AED" />
+          <Text style={styles.title}>{category ? 'Edit Category' : 'Add Category'}</Text>
+          <TouchableOpacity onPress={handleSave} style={styles.addButton}>
+            {category ? (
+              <Check size={24} color="#7C3AED" />
+            ) : (
+              <Plus size={24} color="#7C3AED" />
+            )}
           </TouchableOpacity>
         </View>
 
@@ -91,7 +99,7 @@ export default function CategoryModal({ visible, onClose, onAdd }: CategoryModal
               placeholder="Enter category name..."
               placeholderTextColor="#9CA3AF"
               maxLength={30}
-              autoFocus
+              autoFocus={!category}
               multiline={false}
             />
           </View>
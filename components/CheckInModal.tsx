@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+} from 'react-native';
+import { X, Check, Play } from 'lucide-react-native';
+import { SessionCheckIn } from '@/utils/storage';
+
+export const ENERGY_LEVELS = [
+  { value: 1, emoji: '🪫' },
+  { value: 2, emoji: '🥱' },
+  { value: 3, emoji: '😌' },
+  { value: 4, emoji: '💪' },
+  { value: 5, emoji: '⚡' },
+];
+
+export const MOOD_LEVELS = [
+  { value: 1, emoji: '😣' },
+  { value: 2, emoji: '😕' },
+  { value: 3, emoji: '😐' },
+  { value: 4, emoji: '🙂' },
+  { value: 5, emoji: '😄' },
+];
+
+interface CheckInModalProps {
+  visible: boolean;
+  onStart: (checkIn: SessionCheckIn | null) => void; // null when skipped
+  onClose: () => void; // cancels the start
+}
+
+export default function CheckInModal({
+  visible,
+  onStart,
+  onClose,
+}: CheckInModalProps) {
+  const [energy, setEnergy] = useState<number | null>(null);
+  const [mood, setMood] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setEnergy(null);
+      setMood(null);
+    }
+  }, [visible]);
+
+  const handleStart = () => {
+    onStart(energy === null && mood === null ? null : { energy, mood });
+  };
+
+  const renderScale = (
+    levels: { value: number; emoji: string }[],
+    selected: number | null,
+    onSelect: (value: number) => void
+  ) => (
+    <View style={styles.levels}>
+      {levels.map((level) => (
+        <TouchableOpacity
+          key={level.value}
+          style={[
+            styles.level,
+            selected === level.value && styles.levelSelected,
+          ]}
+          onPress={() => onSelect(level.value)}
+        >
+          <Text style={styles.levelEmoji}>{level.emoji}</Text>
+          <Text
+            style={[
+              styles.levelValue,
+              selected === level.value && styles.levelValueSelected,
+            ]}
+          >
+            {level.value}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.iconButton}>
+            <X size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Quick Check-in</Text>
+          <TouchableOpacity onPress={handleStart} style={styles.iconButton}>
+            <Check size={24} color="#7C3AED" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <Text style={styles.hint}>
+            Over time your stats show which energy and mood work best for you
+          </Text>
+
+          <View style={styles.section}>
+            <Text style={styles.label}>Energy</Text>
+            {renderScale(ENERGY_LEVELS, energy, setEnergy)}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.label}>Mood</Text>
+            {renderScale(MOOD_LEVELS, mood, setMood)}
+          </View>
+
+          <TouchableOpacity style={styles.startButton} onPress={handleStart}>
+            <Play size={20} color="#FFFFFF" />
+            <Text style={styles.startButtonText}>Start Focusing</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.skipButton}
+            onPress={() => onStart(null)}
+          >
+            <Text style={styles.skipButtonText}>Skip check-in</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  iconButton: {
+    padding: 8,
+  },
+  title: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: '#1F2937',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 24,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  levels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  level: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+  },
+  levelSelected: {
+    borderColor: '#7C3AED',
+    backgroundColor: '#F5F3FF',
+  },
+  levelEmoji: {
+    fontSize: 24,
+    marginBottom: 4,
+  },
+  levelValue: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  levelValueSelected: {
+    color: '#7C3AED',
+  },
+  startButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 16,
+    borderRadius: 12,
+    backgroundColor: '#7C3AED',
+    marginTop: 8,
+  },
+  startButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  skipButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginBottom: 40,
+  },
+  skipButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#6B7280',
+  },
+});
@@ -0,0 +1,270 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Switch,
+} from 'react-native';
+import { X, Check, Minus, Plus } from 'lucide-react-native';
+import { CycleSettings } from '@/utils/storage';
+
+interface CycleSettingsModalProps {
+  visible: boolean;
+  settings: CycleSettings;
+  onClose: () => void;
+  onSave: (settings: CycleSettings) => void;
+}
+
+type NumericSetting =
+  | 'focusBlocks'
+  | 'focusMinutes'
+  | 'shortBreakMinutes'
+  | 'longBreakMinutes'
+  | 'longBreakInterval';
+
+const numericFields: {
+  key: NumericSetting;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  {
+    key: 'focusBlocks',
+    label: 'Focus blocks',
+    unit: '',
+    min: 1,
+    max: 12,
+    step: 1,
+  },
+  {
+    key: 'focusMinutes',
+    label: 'Focus length',
+    unit: 'min',
+    min: 5,
+    max: 120,
+    step: 5,
+  },
+  {
+    key: 'shortBreakMinutes',
+    label: 'Short break',
+    unit: 'min',
+    min: 1,
+    max: 30,
+    step: 1,
+  },
+  {
+    key: 'longBreakMinutes',
+    label: 'Long break',
+    unit: 'min',
+    min: 5,
+    max: 60,
+    step: 5,
+  },
+  {
+    key: 'longBreakInterval',
+    label: 'Long break every',
+    unit: 'blocks',
+    min: 1,
+    max: 12,
+    step: 1,
+  },
+];
+
+export default function CycleSettingsModal({
+  visible,
+  settings,
+  onClose,
+  onSave,
+}: CycleSettingsModalProps) {
+  const [draft, setDraft] = useState<CycleSettings>(settings);
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(settings);
+    }
+  }, [visible, settings]);
+
+  const adjust = (
+    key: NumericSetting,
+    delta: number,
+    min: number,
+    max: number
+  ) => {
+    setDraft((prev) => ({
+      ...prev,
+      [key]: Math.min(max, Math.max(min, prev[key] + delta)),
+    }));
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.iconButton}>
+            <X size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Cycle Settings</Text>
+          <TouchableOpacity onPress={handleSave} style={styles.iconButton}>
+            <Check size={24} color="#7C3AED" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            {numericFields.map((field) => (
+              <View key={field.key} style={styles.row}>
+                <Text style={styles.label}>{field.label}</Text>
+                <View style={styles.stepper}>
+                  <TouchableOpacity
+                    style={styles.stepButton}
+                    onPress={() =>
+                      adjust(field.key, -field.step, field.min, field.max)
+                    }
+                  >
+                    <Minus size={18} color="#7C3AED" />
+                  </TouchableOpacity>
+                  <Text style={styles.value}>
+                    {draft[field.key]} {field.unit}
+                  </Text>
+                  <TouchableOpacity
+                    style={styles.stepButton}
+                    onPress={() =>
+                      adjust(field.key, field.step, field.min, field.max)
+                    }
+                  >
+                    <Plus size={18} color="#7C3AED" />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.row}>
+              <Text style={styles.label}>Auto-start breaks</Text>
+              <Switch
+                value={draft.autoStartBreaks}
+                onValueChange={(value) =>
+                  setDraft((prev) => ({ ...prev, autoStartBreaks: value }))
+                }
+                trackColor={{ false: '#E5E7EB', true: '#C4B5FD' }}
+                thumbColor={draft.autoStartBreaks ? '#7C3AED' : '#F9FAFB'}
+              />
+            </View>
+            <View style={styles.row}>
+              <Text style={styles.label}>Auto-start next focus block</Text>
+              <Switch
+                value={draft.autoStartFocus}
+                onValueChange={(value) =>
+                  setDraft((prev) => ({ ...prev, autoStartFocus: value }))
+                }
+                trackColor={{ false: '#E5E7EB', true: '#C4B5FD' }}
+                thumbColor={draft.autoStartFocus ? '#7C3AED' : '#F9FAFB'}
+              />
+            </View>
+          </View>
+
+          <Text style={styles.hint}>
+            Work through {draft.focusBlocks} focus blocks of{' '}
+            {draft.focusMinutes} minutes, with a long break after every{' '}
+            {draft.longBreakInterval} blocks and at the end of the cycle.
+          </Text>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  iconButton: {
+    padding: 8,
+  },
+  title: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: '#1F2937',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+  },
+  label: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#1F2937',
+    flex: 1,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  value: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#7C3AED',
+    minWidth: 80,
+    textAlign: 'center',
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#6B7280',
+    lineHeight: 20,
+    textAlign: 'center',
+    paddingHorizontal: 16,
+    marginBottom: 40,
+  },
+});
@@ -0,0 +1,533 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+  TextInput,
+  ScrollView,
+  Alert,
+  Platform,
+  Switch,
+} from 'react-native';
+import {
+  X,
+  Check,
+  ChevronUp,
+  ChevronDown,
+  Trash2,
+  Play,
+  Plus,
+  Bell,
+} from 'lucide-react-native';
+import {
+  CueFeedback,
+  DurationPreset,
+  DEFAULT_INTERVAL_CUES,
+  IntervalCues,
+} from '@/utils/storage';
+import {
+  MAX_DURATION_MINUTES,
+  createDurationPreset,
+  getPresetLabel,
+} from '@/utils/durations';
+import { CUE_INTERVAL_OPTIONS, formatCuesLabel } from '@/utils/cues';
+
+const CUE_FEEDBACK_OPTIONS: { value: CueFeedback; label: string }[] = [
+  { value: 'sound', label: 'Sound' },
+  { value: 'haptic', label: 'Haptic' },
+  { value: 'both', label: 'Both' },
+];
+
+interface DurationPresetsModalProps {
+  visible: boolean;
+  presets: DurationPreset[];
+  onClose: () => void;
+  onSave: (presets: DurationPreset[]) => void;
+  onUseDuration: (minutes: number) => void;
+}
+
+export default function DurationPresetsModal({
+  visible,
+  presets,
+  onClose,
+  onSave,
+  onUseDuration,
+}: DurationPresetsModalProps) {
+  const [draft, setDraft] = useState<DurationPreset[]>(presets);
+  const [hours, setHours] = useState('');
+  const [minutes, setMinutes] = useState('');
+  const [name, setName] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(presets);
+      setHours('');
+      setMinutes('');
+      setName('');
+      setExpandedId(null);
+    }
+  }, [visible, presets]);
+
+  // Returns the entered duration in minutes, or null after telling the
+  // user what is wrong with it
+  const getEnteredMinutes = (): number | null => {
+    const total =
+      (parseInt(hours, 10) || 0) * 60 + (parseInt(minutes, 10) || 0);
+    if (total < 1 || total > MAX_DURATION_MINUTES) {
+      const message = `Please enter a duration between 1 minute and ${
+        MAX_DURATION_MINUTES / 60
+      } hours`;
+      if (Platform.OS === 'web') {
+        alert(`Invalid Duration\n\n${message}`);
+      } else {
+        Alert.alert('Invalid Duration', message);
+      }
+      return null;
+    }
+    return total;
+  };
+
+  const addPreset = () => {
+    const total = getEnteredMinutes();
+    if (total === null) return;
+    setDraft((prev) => [...prev, createDurationPreset(total, name)]);
+    setHours('');
+    setMinutes('');
+    setName('');
+  };
+
+  const applyOnce = () => {
+    const total = getEnteredMinutes();
+    if (total === null) return;
+    onSave(draft);
+    onUseDuration(total);
+    onClose();
+  };
+
+  const movePreset = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.length) return;
+    const reordered = [...draft];
+    [reordered[index], reordered[target]] = [
+      reordered[target],
+      reordered[index],
+    ];
+    setDraft(reordered);
+  };
+
+  const removePreset = (id: string) => {
+    setDraft((prev) => prev.filter((preset) => preset.id !== id));
+  };
+
+  const updateCues = (id: string, updates: Partial<IntervalCues>) => {
+    setDraft((prev) =>
+      prev.map((preset) =>
+        preset.id === id
+          ? {
+              ...preset,
+              cues: { ...DEFAULT_INTERVAL_CUES, ...preset.cues, ...updates },
+            }
+          : preset
+      )
+    );
+  };
+
+  const renderCueEditor = (preset: DurationPreset) => {
+    const cues = preset.cues ?? DEFAULT_INTERVAL_CUES;
+    return (
+      <View style={styles.cueEditor}>
+        <Text style={styles.cueLabel}>Repeat cue</Text>
+        <View style={styles.cueChips}>
+          {[null, ...CUE_INTERVAL_OPTIONS].map((option) => (
+            <TouchableOpacity
+              key={option ?? 'off'}
+              style={[
+                styles.cueChip,
+                cues.everyMinutes === option && styles.cueChipSelected,
+              ]}
+              onPress={() => updateCues(preset.id, { everyMinutes: option })}
+            >
+              <Text
+                style={[
+                  styles.cueChipText,
+                  cues.everyMinutes === option && styles.cueChipTextSelected,
+                ]}
+              >
+                {option ? `Every ${option}m` : 'Off'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.cueSwitchRow}>
+          <Text style={styles.cueLabel}>Halfway cue</Text>
+          <Switch
+            value={cues.halfway}
+            onValueChange={(value) => updateCues(preset.id, { halfway: value })}
+            trackColor={{ false: '#E5E7EB', true: '#C4B5FD' }}
+            thumbColor={cues.halfway ? '#7C3AED' : '#F9FAFB'}
+          />
+        </View>
+
+        <Text style={styles.cueLabel}>Play as</Text>
+        <View style={styles.cueChips}>
+          {CUE_FEEDBACK_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.cueChip,
+                cues.feedback === option.value && styles.cueChipSelected,
+              ]}
+              onPress={() => updateCues(preset.id, { feedback: option.value })}
+            >
+              <Text
+                style={[
+                  styles.cueChipText,
+                  cues.feedback === option.value && styles.cueChipTextSelected,
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.iconButton}>
+            <X size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Durations</Text>
+          <TouchableOpacity onPress={handleSave} style={styles.iconButton}>
+            <Check size={24} color="#7C3AED" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            <Text style={styles.label}>Custom Duration</Text>
+            <View style={styles.durationInputs}>
+              <View style={styles.durationField}>
+                <TextInput
+                  style={[styles.input, styles.durationInput]}
+                  value={hours}
+                  onChangeText={(text) => setHours(text.replace(/[^0-9]/g, ''))}
+                  placeholder="0"
+                  placeholderTextColor="#9CA3AF"
+                  keyboardType="number-pad"
+                  maxLength={2}
+                />
+                <Text style={styles.unit}>h</Text>
+              </View>
+              <View style={styles.durationField}>
+                <TextInput
+                  style={[styles.input, styles.durationInput]}
+                  value={minutes}
+                  onChangeText={(text) =>
+                    setMinutes(text.replace(/[^0-9]/g, ''))
+                  }
+                  placeholder="0"
+                  placeholderTextColor="#9CA3AF"
+                  keyboardType="number-pad"
+                  maxLength={3}
+                />
+                <Text style={styles.unit}>min</Text>
+              </View>
+            </View>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="Preset name (optional), e.g. Deep work"
+              placeholderTextColor="#9CA3AF"
+              maxLength={20}
+            />
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={addPreset}
+              >
+                <Plus size={18} color="#7C3AED" />
+                <Text style={styles.secondaryButtonText}>Save as Preset</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.primaryButton}
+                onPress={applyOnce}
+              >
+                <Play size={18} color="#FFFFFF" />
+                <Text style={styles.primaryButtonText}>Use Once</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.label}>Your Presets</Text>
+            {draft.length === 0 ? (
+              <Text style={styles.hint}>
+                No presets yet. Save a custom duration above.
+              </Text>
+            ) : (
+              draft.map((preset, index) => (
+                <View key={preset.id} style={styles.presetItem}>
+                  <View style={styles.presetRow}>
+                    <View style={styles.presetInfo}>
+                      <Text style={styles.presetLabel}>
+                        {getPresetLabel(preset)}
+                      </Text>
+                      <Text style={styles.presetCues}>
+                        {formatCuesLabel(preset.cues)}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      style={styles.presetAction}
+                      onPress={() =>
+                        setExpandedId(
+                          expandedId === preset.id ? null : preset.id
+                        )
+                      }
+                    >
+                      <Bell
+                        size={18}
+                        color={expandedId === preset.id ? '#7C3AED' : '#6B7280'}
+                      />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.presetAction}
+                      onPress={() => movePreset(index, -1)}
+                      disabled={index === 0}
+                    >
+                      <ChevronUp
+                        size={18}
+                        color={index === 0 ? '#D1D5DB' : '#6B7280'}
+                      />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.presetAction}
+                      onPress={() => movePreset(index, 1)}
+                      disabled={index === draft.length - 1}
+                    >
+                      <ChevronDown
+                        size={18}
+                        color={
+                          index === draft.length - 1 ? '#D1D5DB' : '#6B7280'
+                        }
+                      />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.presetAction}
+                      onPress={() => removePreset(preset.id)}
+                    >
+                      <Trash2 size={18} color="#EF4444" />
+                    </TouchableOpacity>
+                  </View>
+                  {expandedId === preset.id && renderCueEditor(preset)}
+                </View>
+              ))
+            )}
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  iconButton: {
+    padding: 8,
+  },
+  title: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: '#1F2937',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    marginBottom: 32,
+  },
+  label: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  durationInputs: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  durationField: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: '#1F2937',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    minHeight: 48,
+  },
+  durationInput: {
+    flex: 1,
+  },
+  unit: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+  },
+  secondaryButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#7C3AED',
+  },
+  primaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#7C3AED',
+  },
+  primaryButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  presetItem: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  presetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingLeft: 16,
+    paddingRight: 8,
+    paddingVertical: 8,
+  },
+  presetInfo: {
+    flex: 1,
+  },
+  presetLabel: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: '#1F2937',
+  },
+  presetCues: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  presetAction: {
+    padding: 6,
+  },
+  cueEditor: {
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+    padding: 16,
+    gap: 8,
+  },
+  cueLabel: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  cueChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  cueChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  cueChipSelected: {
+    borderColor: '#7C3AED',
+    backgroundColor: '#F8FAFC',
+  },
+  cueChipText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: '#1F2937',
+  },
+  cueChipTextSelected: {
+    color: '#7C3AED',
+  },
+  cueSwitchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+});
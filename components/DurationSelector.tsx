@@ -1,7 +1,9 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import { SlidersHorizontal } from 'lucide-react-native';
 
 interface Duration {
+  id?: string;
   label: string;
   value: number;
 }
@@ -9,14 +11,18 @@ interface Duration {
 interface DurationSelectorProps {
   durations: Duration[];
   selectedDuration: number;
-  onSelect: (duration: number) => void;
+  selectedId?: string | null; // tells apart chips that share a length
+  onSelect: (duration: number, id?: string) => void;
+  onEdit?: () => void;
   disabled?: boolean;
 }
 
 export default function DurationSelector({ 
   durations, 
   selectedDuration, 
+  selectedId = null,
   onSelect, 
+  onEdit,
   disabled = false 
 }: DurationSelectorProps) {
   return (
@@ -24,26 +30,39 @@ export default function DurationSelector({
       horizontal 
       showsHorizontalScrollIndicator={false}
       contentContainerStyle={styles.container}>
-      {durations.map((duration) => (
+      {durations.map((duration) => {
+        const isSelected = selectedId && duration.id
+          ? selectedId === duration.id
+          : selectedDuration === duration.value;
+        return (
+          <TouchableOpacity
+            key={duration.id ?? duration.value}
+            style={[
+              styles.durationButton,
+              isSelected && styles.selectedDuration,
+              disabled && styles.disabledButton,
+            ]}
+            onPress={() => !disabled && onSelect(duration.value, duration.id)}
+            disabled={disabled}>
+            <Text
+              style={[
+                styles.durationText,
+                isSelected && styles.selectedDurationText,
+                disabled && styles.disabledText,
+              ]}>
+              {duration.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+      {onEdit && (
         <TouchableOpacity
-          key={duration.value}
-          style={[
-            styles.durationButton,
-            selectedDuration === duration.value && styles.selectedDuration,
-            disabled && styles.disabledButton,
-          ]}
-          onPress={() => !disabled && onSelect(duration.value)}
+          style={[styles.durationButton, disabled && styles.disabledButton]}
+          onPress={onEdit}
           disabled={disabled}>
-          <Text
-            style={[
-              styles.durationText,
-              selectedDuration === duration.value && styles.selectedDurationText,
-              disabled && styles.disabledText,
-            ]}>
-            {duration.label}
-          </Text>
+          <SlidersHorizontal size={16} color={disabled ? '#9CA3AF' : '#4B5563'} />
         </TouchableOpacity>
-      ))}
+      )}
     </ScrollView>
   );
 }
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Rect, Line, Text as SvgText } from 'react-native-svg';
+
+interface FocusBarChartProps {
+  data: { label: string; value: number }[];
+  height?: number;
+  highlightLast?: boolean;
+}
+
+const LABEL_HEIGHT = 20;
+const VALUE_HEIGHT = 16;
+
+export default function FocusBarChart({
+  data,
+  height = 180,
+  highlightLast = true,
+}: FocusBarChartProps) {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const maxValue = Math.max(1, ...data.map((item) => item.value));
+  const chartHeight = height - LABEL_HEIGHT - VALUE_HEIGHT;
+  const slotWidth = data.length > 0 ? width / data.length : 0;
+  const barWidth = Math.min(32, slotWidth * 0.6);
+
+  return (
+    <View style={[styles.container, { height }]} onLayout={handleLayout}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          <Line
+            x1={0}
+            y1={VALUE_HEIGHT + chartHeight}
+            x2={width}
+            y2={VALUE_HEIGHT + chartHeight}
+            stroke="#E5E7EB"
+            strokeWidth={1}
+          />
+          {data.map((item, index) => {
+            const barHeight = (item.value / maxValue) * chartHeight;
+            const x = index * slotWidth + (slotWidth - barWidth) / 2;
+            const y = VALUE_HEIGHT + chartHeight - barHeight;
+            const isHighlighted = highlightLast && index === data.length - 1;
+
+            return (
+              <React.Fragment key={`${item.label}-${index}`}>
+                <Rect
+                  x={x}
+                  y={y}
+                  width={barWidth}
+                  height={barHeight}
+                  rx={6}
+                  fill={isHighlighted ? '#7C3AED' : '#C4B5FD'}
+                />
+                {item.value > 0 && (
+                  <SvgText
+                    x={x + barWidth / 2}
+                    y={y - 4}
+                    fontSize={10}
+                    fill="#6B7280"
+                    textAnchor="middle"
+                  >
+                    {Math.round(item.value)}
+                  </SvgText>
+                )}
+                <SvgText
+                  x={x + barWidth / 2}
+                  y={height - 4}
+                  fontSize={11}
+                  fill={isHighlighted ? '#7C3AED' : '#6B7280'}
+                  textAnchor="middle"
+                >
+                  {item.label}
+                </SvgText>
+              </React.Fragment>
+            );
+          })}
+        </Svg>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+});
@@ -0,0 +1,110 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Flame, Target } from 'lucide-react-native';
+import { GoalStatus } from '@/utils/goals';
+
+interface GoalProgressProps {
+  status: GoalStatus;
+}
+
+export default function GoalProgress({ status }: GoalProgressProps) {
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.titleRow}>
+          <Target size={18} color="#7C3AED" />
+          <Text style={styles.title}>Daily goal</Text>
+        </View>
+        <View style={styles.streak}>
+          <Flame size={16} color={status.streak > 0 ? '#F97316' : '#9CA3AF'} />
+          <Text
+            style={[
+              styles.streakText,
+              status.streak > 0 && styles.streakTextActive,
+            ]}
+          >
+            {status.streak} {status.streak === 1 ? 'day' : 'days'}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.progressTrack}>
+        <View
+          style={[
+            styles.progressFill,
+            status.isMet && styles.progressFillMet,
+            { width: `${Math.round(status.progress * 100)}%` },
+          ]}
+        />
+      </View>
+
+      <Text style={styles.progressText}>
+        {status.isMet
+          ? `Goal reached! ${status.focusedMinutes} of ${status.goalMinutes} min today`
+          : `${status.focusedMinutes} of ${status.goalMinutes} min today`}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 16,
+    color: '#1F2937',
+  },
+  streak: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  streakText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#9CA3AF',
+  },
+  streakTextActive: {
+    color: '#F97316',
+  },
+  progressTrack: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#F3F4F6',
+    overflow: 'hidden',
+    marginBottom: 8,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 5,
+    backgroundColor: '#7C3AED',
+  },
+  progressFillMet: {
+    backgroundColor: '#059669',
+  },
+  progressText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#6B7280',
+  },
+});
@@ -0,0 +1,67 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { ListPlus, Trash2 } from 'lucide-react-native';
+import { ParkedThought } from '@/utils/storage';
+
+interface ParkedThoughtListProps {
+  thoughts: ParkedThought[];
+  onConvert: (thought: ParkedThought) => void; // turns it into a task
+  onDiscard: (thoughtId: string) => void;
+}
+
+export default function ParkedThoughtList({
+  thoughts,
+  onConvert,
+  onDiscard,
+}: ParkedThoughtListProps) {
+  return (
+    <View style={styles.list}>
+      {thoughts.map((thought) => (
+        <View key={thought.id} style={styles.item}>
+          <Text style={styles.text}>{thought.text}</Text>
+          <TouchableOpacity
+            style={styles.action}
+            onPress={() => onConvert(thought)}
+          >
+            <ListPlus size={16} color="#7C3AED" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.action}
+            onPress={() => onDiscard(thought.id)}
+          >
+            <Trash2 size={16} color="#EF4444" />
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    gap: 8,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingLeft: 16,
+    paddingRight: 8,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  text: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 15,
+    color: '#1F2937',
+  },
+  action: {
+    padding: 8,
+    marginLeft: 4,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+});
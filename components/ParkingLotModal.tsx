@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+  TextInput,
+  ScrollView,
+} from 'react-native';
+import { X, Plus } from 'lucide-react-native';
+import { ParkedThought } from '@/utils/storage';
+import ParkedThoughtList from '@/components/ParkedThoughtList';
+
+interface ParkingLotModalProps {
+  visible: boolean;
+  thoughts: ParkedThought[];
+  onClose: () => void;
+  onPark?: (text: string) => void; // capture is only offered mid-session
+  onConvert: (thought: ParkedThought) => void;
+  onDiscard: (thoughtId: string) => void;
+}
+
+export default function ParkingLotModal({
+  visible,
+  thoughts,
+  onClose,
+  onPark,
+  onConvert,
+  onDiscard,
+}: ParkingLotModalProps) {
+  const [text, setText] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setText('');
+    }
+  }, [visible]);
+
+  // Parking closes the sheet straight away so the session carries on
+  const park = () => {
+    if (!onPark || !text.trim()) return;
+    onPark(text.trim());
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.iconButton}>
+            <X size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Parking Lot</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        {onPark && (
+          <View style={styles.capture}>
+            <TextInput
+              style={styles.input}
+              value={text}
+              onChangeText={setText}
+              placeholder="What popped into your head?"
+              placeholderTextColor="#9CA3AF"
+              maxLength={200}
+              autoFocus
+              onSubmitEditing={park}
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              style={[
+                styles.parkButton,
+                !text.trim() && styles.parkButtonDisabled,
+              ]}
+              onPress={park}
+              disabled={!text.trim()}
+            >
+              <Plus size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {thoughts.length === 0 ? (
+            <Text style={styles.emptyText}>
+              Nothing parked yet. Jot it down and get back to focusing.
+            </Text>
+          ) : (
+            <>
+              <Text style={styles.hint}>
+                Turn a thought into a task, or let it go
+              </Text>
+              <ParkedThoughtList
+                thoughts={thoughts}
+                onConvert={onConvert}
+                onDiscard={onDiscard}
+              />
+            </>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  iconButton: {
+    padding: 8,
+  },
+  title: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: '#1F2937',
+  },
+  placeholder: {
+    width: 40,
+  },
+  capture: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: '#1F2937',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    minHeight: 48,
+  },
+  parkButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: '#7C3AED',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  parkButtonDisabled: {
+    backgroundColor: '#9CA3AF',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    paddingVertical: 40,
+  },
+});
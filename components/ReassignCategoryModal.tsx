@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+} from 'react-native';
+import { X, Check } from 'lucide-react-native';
+import { CustomCategory } from '@/utils/storage';
+
+interface ReassignCategoryModalProps {
+  visible: boolean;
+  category: CustomCategory | null; // the category being deleted or hidden
+  activityCount: number;
+  categories: CustomCategory[]; // where the activities can go
+  onConfirm: (targetId: string) => void;
+  onClose: () => void;
+}
+
+export default function ReassignCategoryModal({
+  visible,
+  category,
+  activityCount,
+  categories,
+  onConfirm,
+  onClose,
+}: ReassignCategoryModalProps) {
+  const [targetId, setTargetId] = useState<string | null>(null);
+
+  const targets = categories.filter((cat) => cat.id !== category?.id);
+  const action = category?.isDefault ? 'Hide' : 'Delete';
+
+  useEffect(() => {
+    if (visible) {
+      setTargetId(null);
+    }
+  }, [visible]);
+
+  const handleConfirm = () => {
+    if (targetId) {
+      onConfirm(targetId);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.iconButton}>
+            <X size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>{action} Category</Text>
+          <TouchableOpacity
+            onPress={handleConfirm}
+            style={styles.iconButton}
+            disabled={!targetId}
+          >
+            <Check size={24} color={targetId ? '#7C3AED' : '#D1D5DB'} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {category && (
+            <Text style={styles.hint}>
+              {activityCount === 1
+                ? '1 activity uses'
+                : `${activityCount} activities use`}{' '}
+              {category.emoji} {category.name}. Choose a category to move{' '}
+              {activityCount === 1 ? 'it' : 'them'} to.
+            </Text>
+          )}
+
+          <View style={styles.categoriesGrid}>
+            {targets.map((target) => (
+              <TouchableOpacity
+                key={target.id}
+                style={[
+                  styles.categoryOption,
+                  targetId === target.id && styles.categoryOptionSelected,
+                ]}
+                onPress={() => setTargetId(target.id)}
+              >
+                <Text style={styles.categoryEmoji}>{target.emoji}</Text>
+                <Text
+                  style={[
+                    styles.categoryText,
+                    targetId === target.id && styles.categoryTextSelected,
+                  ]}
+                >
+                  {target.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.confirmButton, !targetId && styles.buttonDisabled]}
+            onPress={handleConfirm}
+            disabled={!targetId}
+          >
+            <Text style={styles.confirmButtonText}>
+              Move and {action.toLowerCase()}
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  iconButton: {
+    padding: 8,
+  },
+  title: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: '#1F2937',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 24,
+  },
+  categoriesGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 24,
+  },
+  categoryOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+  },
+  categoryOptionSelected: {
+    borderColor: '#7C3AED',
+    backgroundColor: '#F5F3FF',
+  },
+  categoryEmoji: {
+    fontSize: 16,
+    marginRight: 6,
+  },
+  categoryText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  categoryTextSelected: {
+    color: '#7C3AED',
+  },
+  confirmButton: {
+    alignItems: 'center',
+    paddingVertical: 16,
+    borderRadius: 12,
+    backgroundColor: '#EF4444',
+    marginBottom: 40,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  confirmButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,270 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+  TextInput,
+  ScrollView,
+} from 'react-native';
+import { X, Check } from 'lucide-react-native';
+import { SessionReflection } from '@/utils/storage';
+
+interface ReflectionModalProps {
+  visible: boolean;
+  task: string;
+  onSave: (reflection: SessionReflection) => void;
+  onSkip: () => void;
+  onDismiss?: () => void; // iOS only, once the sheet is fully gone
+}
+
+const FOCUS_RATINGS = [
+  { value: 1, emoji: '😵‍💫' },
+  { value: 2, emoji: '😕' },
+  { value: 3, emoji: '😐' },
+  { value: 4, emoji: '🙂' },
+  { value: 5, emoji: '🔥' },
+];
+
+export default function ReflectionModal({
+  visible,
+  task,
+  onSave,
+  onSkip,
+  onDismiss,
+}: ReflectionModalProps) {
+  const [focusRating, setFocusRating] = useState<number | null>(null);
+  const [finished, setFinished] = useState<boolean | null>(null);
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setFocusRating(null);
+      setFinished(null);
+      setNote('');
+    }
+  }, [visible]);
+
+  const handleSave = () => {
+    onSave({ focusRating, finished, note: note.trim() });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onSkip}
+      onDismiss={onDismiss}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onSkip} style={styles.iconButton}>
+            <X size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Quick Reflection</Text>
+          <TouchableOpacity onPress={handleSave} style={styles.iconButton}>
+            <Check size={24} color="#7C3AED" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            <Text style={styles.label}>How focused were you?</Text>
+            <View style={styles.ratings}>
+              {FOCUS_RATINGS.map((rating) => (
+                <TouchableOpacity
+                  key={rating.value}
+                  style={[
+                    styles.rating,
+                    focusRating === rating.value && styles.optionSelected,
+                  ]}
+                  onPress={() => setFocusRating(rating.value)}
+                >
+                  <Text style={styles.ratingEmoji}>{rating.emoji}</Text>
+                  <Text
+                    style={[
+                      styles.ratingValue,
+                      focusRating === rating.value && styles.optionTextSelected,
+                    ]}
+                  >
+                    {rating.value}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.label}>Did you finish?</Text>
+            {task ? (
+              <Text style={styles.hint} numberOfLines={2}>
+                {task}
+              </Text>
+            ) : null}
+            <View style={styles.choices}>
+              {[
+                { value: true, label: 'Yes, done' },
+                { value: false, label: 'Not yet' },
+              ].map((choice) => (
+                <TouchableOpacity
+                  key={choice.label}
+                  style={[
+                    styles.choice,
+                    finished === choice.value && styles.optionSelected,
+                  ]}
+                  onPress={() => setFinished(choice.value)}
+                >
+                  <Text
+                    style={[
+                      styles.choiceText,
+                      finished === choice.value && styles.optionTextSelected,
+                    ]}
+                  >
+                    {choice.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.label}>Note</Text>
+            <TextInput
+              style={[styles.input, styles.noteInput]}
+              value={note}
+              onChangeText={setNote}
+              placeholder="What helped, what got in the way..."
+              placeholderTextColor="#9CA3AF"
+              maxLength={500}
+              multiline
+              textAlignVertical="top"
+            />
+          </View>
+
+          <TouchableOpacity style={styles.skipButton} onPress={onSkip}>
+            <Text style={styles.skipButtonText}>Skip for now</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  iconButton: {
+    padding: 8,
+  },
+  title: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: '#1F2937',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  ratings: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  rating: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+  },
+  ratingEmoji: {
+    fontSize: 24,
+    marginBottom: 4,
+  },
+  ratingValue: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  choices: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  choice: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+  },
+  choiceText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: '#1F2937',
+  },
+  optionSelected: {
+    borderColor: '#7C3AED',
+    backgroundColor: '#F5F3FF',
+  },
+  optionTextSelected: {
+    color: '#7C3AED',
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: '#1F2937',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    minHeight: 48,
+  },
+  noteInput: {
+    minHeight: 100,
+  },
+  skipButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginBottom: 40,
+  },
+  skipButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#6B7280',
+  },
+});
@@ -0,0 +1,187 @@
+import React from 'react';
+import { View, Text, Modal, TouchableOpacity, StyleSheet } from 'react-native';
+import { X, Plus, Timer, Coffee } from 'lucide-react-native';
+
+export const EXTEND_OPTIONS = [5, 10, 15]; // minutes
+
+interface SessionCompleteModalProps {
+  visible: boolean;
+  durationLabel: string; // the plan that just ran out, e.g. "25m"
+  onExtend: (minutes: number) => void;
+  onOvertime: () => void;
+  onFinish: () => void;
+  onDismiss?: () => void; // iOS only, once the sheet is fully gone
+}
+
+export default function SessionCompleteModal({
+  visible,
+  durationLabel,
+  onExtend,
+  onOvertime,
+  onFinish,
+  onDismiss,
+}: SessionCompleteModalProps) {
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onFinish}
+      onDismiss={onDismiss}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onFinish} style={styles.closeButton}>
+            <X size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Time's Up!</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <View style={styles.content}>
+          <Text style={styles.emoji}>⏰</Text>
+          <Text style={styles.subtitle}>
+            You finished your {durationLabel} session. Still in the zone?
+          </Text>
+
+          <Text style={styles.label}>Extend by</Text>
+          <View style={styles.extendOptions}>
+            {EXTEND_OPTIONS.map((minutes) => (
+              <TouchableOpacity
+                key={minutes}
+                style={styles.extendButton}
+                onPress={() => onExtend(minutes)}
+              >
+                <Plus size={16} color="#7C3AED" />
+                <Text style={styles.extendText}>{minutes} min</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TouchableOpacity style={styles.secondaryButton} onPress={onOvertime}>
+            <Timer size={20} color="#7C3AED" />
+            <Text style={styles.secondaryButtonText}>Keep Going</Text>
+          </TouchableOpacity>
+          <Text style={styles.hint}>
+            Overtime counts up until you finish and is logged separately
+          </Text>
+
+          <TouchableOpacity style={styles.doneButton} onPress={onFinish}>
+            <Coffee size={20} color="#FFFFFF" />
+            <Text style={styles.doneButtonText}>Finish & Take a Break</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  title: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: '#1F2937',
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+    alignItems: 'center',
+  },
+  emoji: {
+    fontSize: 64,
+    marginTop: 20,
+    marginBottom: 16,
+  },
+  subtitle: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  label: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  extendOptions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 24,
+  },
+  extendButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+  },
+  extendText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#7C3AED',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    width: '100%',
+    paddingVertical: 16,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+  },
+  secondaryButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#7C3AED',
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  doneButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    width: '100%',
+    paddingVertical: 16,
+    borderRadius: 12,
+    backgroundColor: '#7C3AED',
+  },
+  doneButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
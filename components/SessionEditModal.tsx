@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+  TextInput,
+  Alert,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { X, Check } from 'lucide-react-native';
+import { FocusSession, SessionOutcome } from '@/utils/storage';
+
+interface SessionEditModalProps {
+  session: FocusSession | null;
+  onClose: () => void;
+  onSave: (sessionId: string, updates: Partial<FocusSession>) => void;
+}
+
+const outcomes: { value: SessionOutcome; label: string }[] = [
+  { value: 'completed', label: 'Completed' },
+  { value: 'abandoned', label: 'Abandoned' },
+];
+
+export default function SessionEditModal({
+  session,
+  onClose,
+  onSave,
+}: SessionEditModalProps) {
+  const [task, setTask] = useState('');
+  const [minutes, setMinutes] = useState('');
+  const [outcome, setOutcome] = useState<SessionOutcome>('completed');
+
+  useEffect(() => {
+    if (session) {
+      setTask(session.task);
+      setMinutes(Math.round(session.actualDuration / 60000).toString());
+      setOutcome(session.outcome);
+    }
+  }, [session]);
+
+  const handleSave = () => {
+    if (!session) return;
+
+    const parsedMinutes = parseInt(minutes, 10);
+    if (!task.trim() || isNaN(parsedMinutes) || parsedMinutes < 0) {
+      if (Platform.OS === 'web') {
+        alert('Error\n\nPlease enter a task and a valid number of minutes');
+      } else {
+        Alert.alert(
+          'Error',
+          'Please enter a task and a valid number of minutes'
+        );
+      }
+      return;
+    }
+
+    const updates: Partial<FocusSession> = { task: task.trim(), outcome };
+    // Only a changed duration is written, so an untouched one keeps its
+    // seconds. The end moves with it, and overtime stays what lies past
+    // the plan.
+    if (parsedMinutes !== Math.round(session.actualDuration / 60000)) {
+      const actualDuration = parsedMinutes * 60000;
+      updates.actualDuration = actualDuration;
+      updates.endedAt =
+        session.endedAt + (actualDuration - session.actualDuration);
+      if (session.overtime !== undefined) {
+        const overtime = actualDuration - session.plannedDuration;
+        updates.overtime = overtime > 0 ? overtime : undefined;
+      }
+    }
+
+    onSave(session.id, updates);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={session !== null}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.iconButton}>
+            <X size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Edit Session</Text>
+          <TouchableOpacity onPress={handleSave} style={styles.iconButton}>
+            <Check size={24} color="#7C3AED" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            <Text style={styles.label}>Task</Text>
+            <TextInput
+              style={styles.input}
+              value={task}
+              onChangeText={setTask}
+              placeholder="What did you focus on?"
+              placeholderTextColor="#9CA3AF"
+              maxLength={100}
+            />
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.label}>Minutes Focused</Text>
+            <TextInput
+              style={styles.input}
+              value={minutes}
+              onChangeText={(text) => setMinutes(text.replace(/[^0-9]/g, ''))}
+              keyboardType="number-pad"
+              maxLength={4}
+            />
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.label}>Outcome</Text>
+            <View style={styles.options}>
+              {outcomes.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.option,
+                    outcome === option.value && styles.selectedOption,
+                  ]}
+                  onPress={() => setOutcome(option.value)}
+                >
+                  <Text
+                    style={[
+                      styles.optionText,
+                      outcome === option.value && styles.selectedOptionText,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  iconButton: {
+    padding: 8,
+  },
+  title: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: '#1F2937',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: '#1F2937',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    minHeight: 48,
+  },
+  options: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  option: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+  },
+  selectedOption: {
+    borderColor: '#7C3AED',
+    backgroundColor: '#F3F4F6',
+  },
+  optionText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  selectedOptionText: {
+    color: '#7C3AED',
+  },
+});
@@ -0,0 +1,355 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+  TextInput,
+  Alert,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import {
+  X,
+  Check,
+  Minus,
+  Plus,
+  ChevronUp,
+  ChevronDown,
+  Trash2,
+} from 'lucide-react-native';
+import { Subtask, Task } from '@/utils/storage';
+import { createSubtask, createTask } from '@/utils/tasks';
+
+interface TaskModalProps {
+  visible: boolean;
+  task: Task | null; // null creates a new task
+  onClose: () => void;
+  onSave: (task: Task) => void;
+}
+
+const MAX_ESTIMATE = 20;
+
+export default function TaskModal({
+  visible,
+  task,
+  onClose,
+  onSave,
+}: TaskModalProps) {
+  const [title, setTitle] = useState('');
+  const [notes, setNotes] = useState('');
+  const [estimate, setEstimate] = useState<number | null>(null);
+  const [subtasks, setSubtasks] = useState<Subtask[]>([]);
+  const [newSubtask, setNewSubtask] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setTitle(task?.title ?? '');
+      setNotes(task?.notes ?? '');
+      setEstimate(task?.estimatedSessions ?? null);
+      setSubtasks(task?.subtasks ?? []);
+      setNewSubtask('');
+    }
+  }, [visible, task]);
+
+  const handleSave = () => {
+    if (!title.trim()) {
+      if (Platform.OS === 'web') {
+        alert('Error\n\nPlease enter a task title');
+      } else {
+        Alert.alert('Error', 'Please enter a task title');
+      }
+      return;
+    }
+
+    const base = task ?? createTask(title.trim());
+    onSave({
+      ...base,
+      title: title.trim(),
+      notes: notes.trim(),
+      estimatedSessions: estimate,
+      subtasks,
+    });
+    onClose();
+  };
+
+  const adjustEstimate = (delta: number) => {
+    setEstimate((prev) => {
+      const next = (prev ?? 0) + delta;
+      if (next < 1) return null;
+      return Math.min(MAX_ESTIMATE, next);
+    });
+  };
+
+  const addSubtask = () => {
+    if (!newSubtask.trim()) return;
+    setSubtasks((prev) => [...prev, createSubtask(newSubtask.trim())]);
+    setNewSubtask('');
+  };
+
+  const moveSubtask = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= subtasks.length) return;
+    const reordered = [...subtasks];
+    [reordered[index], reordered[target]] = [
+      reordered[target],
+      reordered[index],
+    ];
+    setSubtasks(reordered);
+  };
+
+  const removeSubtask = (subtaskId: string) => {
+    setSubtasks((prev) => prev.filter((subtask) => subtask.id !== subtaskId));
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.iconButton}>
+            <X size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>{task ? 'Edit Task' : 'New Task'}</Text>
+          <TouchableOpacity onPress={handleSave} style={styles.iconButton}>
+            <Check size={24} color="#7C3AED" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            <Text style={styles.label}>Title</Text>
+            <TextInput
+              style={styles.input}
+              value={title}
+              onChangeText={setTitle}
+              placeholder="What needs doing?"
+              placeholderTextColor="#9CA3AF"
+              maxLength={100}
+              autoFocus={!task}
+            />
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.label}>Notes</Text>
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="Anything to remember while you work..."
+              placeholderTextColor="#9CA3AF"
+              maxLength={500}
+              multiline
+              textAlignVertical="top"
+            />
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.label}>Estimated Sessions</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                style={styles.stepButton}
+                onPress={() => adjustEstimate(-1)}
+              >
+                <Minus size={18} color="#7C3AED" />
+              </TouchableOpacity>
+              <Text style={styles.stepperValue}>
+                {estimate === null ? 'No estimate' : estimate}
+              </Text>
+              <TouchableOpacity
+                style={styles.stepButton}
+                onPress={() => adjustEstimate(1)}
+              >
+                <Plus size={18} color="#7C3AED" />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.label}>Subtasks</Text>
+            <Text style={styles.hint}>
+              Break the task into small steps you can tick off while focusing
+            </Text>
+            {subtasks.map((subtask, index) => (
+              <View key={subtask.id} style={styles.subtaskRow}>
+                <Text
+                  style={[
+                    styles.subtaskTitle,
+                    subtask.done && styles.subtaskTitleDone,
+                  ]}
+                  numberOfLines={2}
+                >
+                  {index + 1}. {subtask.title}
+                </Text>
+                <TouchableOpacity
+                  style={styles.subtaskAction}
+                  onPress={() => moveSubtask(index, -1)}
+                  disabled={index === 0}
+                >
+                  <ChevronUp
+                    size={16}
+                    color={index === 0 ? '#D1D5DB' : '#6B7280'}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.subtaskAction}
+                  onPress={() => moveSubtask(index, 1)}
+                  disabled={index === subtasks.length - 1}
+                >
+                  <ChevronDown
+                    size={16}
+                    color={
+                      index === subtasks.length - 1 ? '#D1D5DB' : '#6B7280'
+                    }
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.subtaskAction}
+                  onPress={() => removeSubtask(subtask.id)}
+                >
+                  <Trash2 size={16} color="#EF4444" />
+                </TouchableOpacity>
+              </View>
+            ))}
+            <View style={styles.subtaskInputRow}>
+              <TextInput
+                style={[styles.input, styles.subtaskInput]}
+                value={newSubtask}
+                onChangeText={setNewSubtask}
+                placeholder="Add a step..."
+                placeholderTextColor="#9CA3AF"
+                maxLength={100}
+                onSubmitEditing={addSubtask}
+                returnKeyType="done"
+              />
+              <TouchableOpacity
+                style={styles.stepButton}
+                onPress={addSubtask}
+                disabled={!newSubtask.trim()}
+              >
+                <Plus size={18} color="#7C3AED" />
+              </TouchableOpacity>
+            </View>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  iconButton: {
+    padding: 8,
+  },
+  title: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: '#1F2937',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: '#1F2937',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    minHeight: 48,
+  },
+  notesInput: {
+    minHeight: 100,
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  subtaskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingLeft: 16,
+    paddingRight: 8,
+    paddingVertical: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  subtaskTitle: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 15,
+    color: '#1F2937',
+  },
+  subtaskTitleDone: {
+    color: '#9CA3AF',
+    textDecorationLine: 'line-through',
+  },
+  subtaskAction: {
+    padding: 6,
+  },
+  subtaskInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  subtaskInput: {
+    flex: 1,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperValue: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#7C3AED',
+    minWidth: 100,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,341 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+  TextInput,
+  ScrollView,
+  Platform,
+  Alert,
+} from 'react-native';
+import {
+  X,
+  Plus,
+  Pencil,
+  Trash2,
+  Circle,
+  CircleCheck,
+} from 'lucide-react-native';
+import { Task } from '@/utils/storage';
+import { createTask, formatTaskProgress } from '@/utils/tasks';
+import TaskModal from '@/components/TaskModal';
+
+interface TaskPickerModalProps {
+  visible: boolean;
+  tasks: Task[];
+  selectedTaskId: string | null;
+  onClose: () => void;
+  onSelect: (task: Task) => void;
+  onSave: (task: Task) => void; // adds or updates
+  onRemove: (taskId: string) => void;
+}
+
+export default function TaskPickerModal({
+  visible,
+  tasks,
+  selectedTaskId,
+  onClose,
+  onSelect,
+  onSave,
+  onRemove,
+}: TaskPickerModalProps) {
+  const [quickTitle, setQuickTitle] = useState('');
+  const [showDone, setShowDone] = useState(false);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [showTaskModal, setShowTaskModal] = useState(false);
+
+  const openTasks = tasks.filter((task) => !task.done);
+  const doneTasks = tasks.filter((task) => task.done);
+
+  const quickAdd = () => {
+    if (!quickTitle.trim()) return;
+    onSave(createTask(quickTitle.trim()));
+    setQuickTitle('');
+  };
+
+  const openEditor = (task: Task | null) => {
+    setEditingTask(task);
+    setShowTaskModal(true);
+  };
+
+  const confirmRemove = (task: Task) => {
+    if (Platform.OS === 'web') {
+      if (confirm(`Delete "${task.title}"?`)) {
+        onRemove(task.id);
+      }
+    } else {
+      Alert.alert('Delete Task', `Delete "${task.title}"?`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => onRemove(task.id),
+        },
+      ]);
+    }
+  };
+
+  const renderTask = (task: Task) => (
+    <View
+      key={task.id}
+      style={[
+        styles.taskItem,
+        task.id === selectedTaskId && styles.taskItemSelected,
+      ]}
+    >
+      <TouchableOpacity
+        style={styles.doneToggle}
+        onPress={() => onSave({ ...task, done: !task.done })}
+      >
+        {task.done ? (
+          <CircleCheck size={22} color="#059669" />
+        ) : (
+          <Circle size={22} color="#9CA3AF" />
+        )}
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.taskContent}
+        onPress={() => {
+          onSelect(task);
+          onClose();
+        }}
+        disabled={task.done}
+      >
+        <Text
+          style={[styles.taskTitle, task.done && styles.taskTitleDone]}
+          numberOfLines={1}
+        >
+          {task.title}
+        </Text>
+        <Text style={styles.taskMeta}>
+          {formatTaskProgress(task)}
+          {task.subtasks && task.subtasks.length > 0
+            ? ` · ${task.subtasks.filter((subtask) => subtask.done).length}/${
+                task.subtasks.length
+              } steps`
+            : ''}
+        </Text>
+        {task.notes ? (
+          <Text style={styles.taskNotes} numberOfLines={2}>
+            {task.notes}
+          </Text>
+        ) : null}
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.iconAction}
+        onPress={() => openEditor(task)}
+      >
+        <Pencil size={16} color="#7C3AED" />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.iconAction}
+        onPress={() => confirmRemove(task)}
+      >
+        <Trash2 size={16} color="#EF4444" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.iconButton}>
+            <X size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Tasks</Text>
+          <TouchableOpacity
+            onPress={() => openEditor(null)}
+            style={styles.iconButton}
+          >
+            <Plus size={24} color="#7C3AED" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.quickAdd}>
+          <TextInput
+            style={styles.quickAddInput}
+            value={quickTitle}
+            onChangeText={setQuickTitle}
+            placeholder="Quick add a task..."
+            placeholderTextColor="#9CA3AF"
+            maxLength={100}
+            onSubmitEditing={quickAdd}
+            returnKeyType="done"
+          />
+          <TouchableOpacity
+            style={[
+              styles.quickAddButton,
+              !quickTitle.trim() && styles.quickAddButtonDisabled,
+            ]}
+            onPress={quickAdd}
+            disabled={!quickTitle.trim()}
+          >
+            <Plus size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {openTasks.length === 0 ? (
+            <Text style={styles.emptyText}>
+              No open tasks. Add one above to get started.
+            </Text>
+          ) : (
+            openTasks.map(renderTask)
+          )}
+
+          {doneTasks.length > 0 && (
+            <>
+              <TouchableOpacity
+                style={styles.doneHeader}
+                onPress={() => setShowDone(!showDone)}
+              >
+                <Text style={styles.doneHeaderText}>
+                  {showDone ? 'Hide' : 'Show'} completed ({doneTasks.length})
+                </Text>
+              </TouchableOpacity>
+              {showDone && doneTasks.map(renderTask)}
+            </>
+          )}
+        </ScrollView>
+      </View>
+
+      <TaskModal
+        visible={showTaskModal}
+        task={editingTask}
+        onClose={() => setShowTaskModal(false)}
+        onSave={onSave}
+      />
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  iconButton: {
+    padding: 8,
+  },
+  title: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: '#1F2937',
+  },
+  quickAdd: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  quickAddInput: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: '#1F2937',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    minHeight: 48,
+  },
+  quickAddButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: '#7C3AED',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  quickAddButtonDisabled: {
+    backgroundColor: '#9CA3AF',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    paddingVertical: 40,
+  },
+  taskItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+  },
+  taskItemSelected: {
+    borderColor: '#7C3AED',
+  },
+  doneToggle: {
+    padding: 4,
+    marginRight: 8,
+  },
+  taskContent: {
+    flex: 1,
+  },
+  taskTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#1F2937',
+    marginBottom: 2,
+  },
+  taskTitleDone: {
+    color: '#9CA3AF',
+    textDecorationLine: 'line-through',
+  },
+  taskMeta: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: '#7C3AED',
+  },
+  taskNotes: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  iconAction: {
+    padding: 8,
+    marginLeft: 4,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  doneHeader: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  doneHeaderText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#6B7280',
+  },
+});
@@ -1,23 +1,176 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
+import Svg, { Circle, Path } from 'react-native-svg';
+import { TimerEngine } from '@/utils/timer';
+import { useTimer } from '@/hooks/useTimer';
+import { TimerDisplayStyle } from '@/utils/storage';
 
 interface TimerDisplayProps {
-  timeLeft: number;
-  isRunning: boolean;
+  timer: TimerEngine;
+  displayStyle?: TimerDisplayStyle;
+  hideDigits?: boolean; // a visual is shown instead, whatever the style
 }
 
-export default function TimerDisplay({ timeLeft, isRunning }: TimerDisplayProps) {
+const RING_SIZE = 260;
+const RING_STROKE = 16;
+
+// Purple while there is plenty of time, amber past halfway, red at the end
+const getProgressColor = (fraction: number) => {
+  if (fraction > 0.5) return '#7C3AED';
+  if (fraction > 0.2) return '#F59E0B';
+  return '#EF4444';
+};
+
+// Pie slice from 12 o'clock, clockwise, covering the given fraction
+const getWedgePath = (fraction: number, radius: number) => {
+  const center = RING_SIZE / 2;
+  const angle = fraction * 2 * Math.PI;
+  const x = center + radius * Math.sin(angle);
+  const y = center - radius * Math.cos(angle);
+  const largeArc = fraction > 0.5 ? 1 : 0;
+  return `M ${center} ${center} L ${center} ${
+    center - radius
+  } A ${radius} ${radius} 0 ${largeArc} 1 ${x} ${y} Z`;
+};
+
+export default function TimerDisplay({
+  timer,
+  displayStyle = 'digits',
+  hideDigits = false,
+}: TimerDisplayProps) {
+  const { status, remaining, mode, elapsed, duration, overtime } =
+    useTimer(timer);
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
+  // Flow sessions can run long, so count-up time switches to H:MM:SS
+  const formatElapsed = (seconds: number) => {
+    if (seconds < 3600) return formatTime(seconds);
+    const hours = Math.floor(seconds / 3600);
+    return `${hours}:${formatTime(seconds % 3600)}`;
+  };
+
+  const isCountUp = mode === 'countUp';
+  const targetMinutes = Math.round(duration / 60000);
+
+  // Share of the plan (or flow target) still to go
+  const fractionLeft =
+    duration <= 0
+      ? 1
+      : isCountUp
+      ? Math.max(0, 1 - elapsed / duration)
+      : Math.min(1, remaining / duration);
+  const progressColor = overtime
+    ? '#F97316'
+    : status === 'idle' || (isCountUp && duration <= 0)
+    ? '#7C3AED'
+    : getProgressColor(fractionLeft);
+
+  const visual =
+    displayStyle === 'disc'
+      ? 'disc'
+      : displayStyle === 'digits'
+      ? null
+      : 'ring';
+  // Hiding the digits must still leave something to look at
+  const shownVisual = visual ?? (hideDigits ? 'ring' : null);
+  const showDigits = !hideDigits && displayStyle !== 'ring';
+
+  const digits = (
+    <Text
+      style={[
+        styles.timer,
+        shownVisual === 'ring' && styles.timerInRing,
+        status === 'running' && styles.timerActive,
+        overtime && styles.timerOvertime,
+      ]}
+    >
+      {overtime
+        ? `+${formatElapsed(Math.floor((elapsed - duration) / 1000))}`
+        : isCountUp
+        ? formatElapsed(Math.floor(elapsed / 1000))
+        : formatTime(Math.ceil(remaining / 1000))}
+    </Text>
+  );
+
+  const radius = (RING_SIZE - RING_STROKE) / 2;
+  const circumference = 2 * Math.PI * radius;
+
   return (
     <View style={styles.container}>
-      <Text style={[styles.timer, isRunning && styles.timerActive]}>
-        {formatTime(timeLeft)}
-      </Text>
+      {shownVisual === 'ring' && (
+        <View style={styles.visual}>
+          <Svg width={RING_SIZE} height={RING_SIZE}>
+            <Circle
+              cx={RING_SIZE / 2}
+              cy={RING_SIZE / 2}
+              r={radius}
+              stroke="#E5E7EB"
+              strokeWidth={RING_STROKE}
+              fill="none"
+            />
+            <Circle
+              cx={RING_SIZE / 2}
+              cy={RING_SIZE / 2}
+              r={radius}
+              stroke={progressColor}
+              strokeWidth={RING_STROKE}
+              strokeLinecap="round"
+              fill="none"
+              strokeDasharray={`${circumference} ${circumference}`}
+              strokeDashoffset={circumference * (1 - fractionLeft)}
+              transform={`rotate(-90 ${RING_SIZE / 2} ${RING_SIZE / 2})`}
+            />
+          </Svg>
+          {showDigits && <View style={styles.ringCenter}>{digits}</View>}
+        </View>
+      )}
+
+      {shownVisual === 'disc' && (
+        <View style={styles.visual}>
+          <Svg width={RING_SIZE} height={RING_SIZE}>
+            <Circle
+              cx={RING_SIZE / 2}
+              cy={RING_SIZE / 2}
+              r={RING_SIZE / 2}
+              fill="#F3F4F6"
+            />
+            {fractionLeft >= 1 ? (
+              <Circle
+                cx={RING_SIZE / 2}
+                cy={RING_SIZE / 2}
+                r={RING_SIZE / 2 - 8}
+                fill={progressColor}
+              />
+            ) : (
+              fractionLeft > 0 && (
+                <Path
+                  d={getWedgePath(fractionLeft, RING_SIZE / 2 - 8)}
+                  fill={progressColor}
+                />
+              )
+            )}
+          </Svg>
+        </View>
+      )}
+
+      {showDigits && shownVisual !== 'ring' && digits}
+
+      {isCountUp && (
+        <Text style={styles.caption}>
+          {overtime
+            ? `Overtime · ${targetMinutes} min planned`
+            : duration <= 0
+            ? 'Flow · no target'
+            : elapsed >= duration
+            ? 'Target reached · keep going'
+            : `Flow · target ${targetMinutes} min`}
+        </Text>
+      )}
     </View>
   );
 }
@@ -29,6 +182,18 @@ const styles = StyleSheet.create({
     flex: 1,
     marginVertical: 20,
   },
+  visual: {
+    width: RING_SIZE,
+    height: RING_SIZE,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 8,
+  },
+  ringCenter: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   timer: {
     fontFamily: 'SpaceGrotesk-Bold',
     fontSize: 72,
@@ -36,7 +201,19 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     textAlign: 'center',
   },
+  timerInRing: {
+    fontSize: 48,
+  },
   timerActive: {
     color: '#7C3AED',
   },
-});
\ No newline at end of file
+  timerOvertime: {
+    color: '#F97316',
+  },
+  caption: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { TimerEngine, TimerSnapshot } from '@/utils/timer';
+
+export function useTimer(timer: TimerEngine): TimerSnapshot {
+  const [snapshot, setSnapshot] = useState(() => timer.getSnapshot());
+
+  useEffect(() => {
+    setSnapshot(timer.getSnapshot());
+    const unsubscribeTick = timer.on('tick', setSnapshot);
+    const unsubscribeChange = timer.on('change', setSnapshot);
+
+    return () => {
+      unsubscribeTick();
+      unsubscribeChange();
+    };
+  }, [timer]);
+
+  return snapshot;
+}
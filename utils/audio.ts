@@ -1,6 +1,7 @@
 import { Audio } from 'expo-av';
-import { Platform, Vibration, Alert } from 'react-native';
+import { Platform, Vibration, Alert, AppState } from 'react-native';
 import * as Notifications from 'expo-notifications';
+import { NotificationService } from './notifications';
 
 export interface SoundOption {
   id: string;
@@ -27,6 +28,7 @@ export class AudioService {
   private static sound: Audio.Sound | null = null;
   private static isTestingSound = false;
   private static backgroundTimer: NodeJS.Timeout | null = null;
+  private static cueSound: Audio.Sound | null = null;
 
   static async initializeAudio() {
     try {
@@ -46,11 +48,17 @@ export class AudioService {
 
         // Configure notifications
         await Notifications.setNotificationHandler({
-          handleNotification: async () => ({
-            shouldShowAlert: true,
-            shouldPlaySound: true,
-            shouldSetBadge: false,
-          }),
+          handleNotification: async (notification) => {
+            // With the app open the timer already plays the end sound
+            const isHandledInApp =
+              AppState.currentState === 'active' &&
+              NotificationService.isSessionEnd(notification);
+            return {
+              shouldShowAlert: !isHandledInApp,
+              shouldPlaySound: !isHandledInApp,
+              shouldSetBadge: false,
+            };
+          },
         });
 
         // Request notification permissions
@@ -253,11 +261,54 @@ export class AudioService {
         }
         this.sound = null;
       }
+
+      if (this.cueSound) {
+        await this.cueSound.unloadAsync();
+        this.cueSound = null;
+      }
     } catch (error) {
       console.error('❌ Error cleaning up sound:', error);
     }
   }
 
+  // Short bundled sounds have their own sound object so they never
+  // unload a preloaded completion sound
+  private static async playShortSound(source: number, volume: number) {
+    if (this.cueSound) {
+      await this.cueSound.unloadAsync();
+      this.cueSound = null;
+    }
+    const { sound } = await Audio.Sound.createAsync(source, {
+      shouldPlay: true,
+      volume,
+    });
+    this.cueSound = sound;
+  }
+
+  // Quiet bell for interval cues
+  static async playCue(volume = 0.3) {
+    try {
+      await this.playShortSound(
+        require('@/assets/sounds/cue_bell.wav'),
+        volume
+      );
+    } catch (error) {
+      console.error('❌ Error playing cue sound:', error);
+    }
+  }
+
+  // Rising chime before the end, distinct from the cue bell
+  static async playWarning() {
+    try {
+      await this.playShortSound(
+        require('@/assets/sounds/warning_chime.wav'),
+        1.0
+      );
+    } catch (error) {
+      console.error('❌ Error playing warning sound:', error);
+    }
+  }
+
   // Preload a sound for instant playback
   static async preloadSound(soundOption?: SoundOption) {
     try {
@@ -0,0 +1,75 @@
+import { IntervalCues } from './storage';
+import { formatDurationLabel } from './durations';
+
+export type CueKind = 'interval' | 'halfway';
+
+export const CUE_INTERVAL_OPTIONS = [5, 10, 15]; // minutes
+
+// Cues this close to the end are skipped so they never clash with the
+// completion sound
+const END_GUARD_MS = 10 * 1000;
+// Boundaries passed longer ago than this, e.g. while the app was in the
+// background, are dropped instead of played late
+const LATE_CUE_MS = 3 * 1000;
+
+// Returns the cue whose moment fell between two elapsed readings of the
+// same session, preferring halfway when both land together
+export function getDueCue(
+  cues: IntervalCues,
+  duration: number,
+  previousElapsed: number,
+  elapsed: number
+): CueKind | null {
+  const isDue = (at: number) =>
+    at > previousElapsed &&
+    at <= elapsed &&
+    elapsed - at <= LATE_CUE_MS &&
+    at < duration - END_GUARD_MS;
+
+  if (cues.halfway && isDue(duration / 2)) {
+    return 'halfway';
+  }
+  if (cues.everyMinutes) {
+    const interval = cues.everyMinutes * 60 * 1000;
+    const latest = Math.floor(elapsed / interval) * interval;
+    if (latest > 0 && isDue(latest)) {
+      return 'interval';
+    }
+  }
+  return null;
+}
+
+// Returns the warning offset (minutes before the end) that the remaining
+// time has just passed. Offsets as long as the session itself are ignored.
+export function getDueWarning(
+  offsetsMinutes: number[],
+  duration: number,
+  previousRemaining: number,
+  remaining: number
+): number | null {
+  const due = offsetsMinutes.find((offset) => {
+    const at = offset * 60 * 1000;
+    return (
+      at < duration &&
+      at < previousRemaining &&
+      at >= remaining &&
+      at - remaining <= LATE_CUE_MS
+    );
+  });
+  return due ?? null;
+}
+
+// Summary for preset lists, e.g. "Every 10m · halfway"
+export function formatCuesLabel(cues?: IntervalCues): string {
+  if (!cues || (!cues.everyMinutes && !cues.halfway)) {
+    return 'No cues';
+  }
+  const parts = [];
+  if (cues.everyMinutes) {
+    parts.push(`Every ${formatDurationLabel(cues.everyMinutes)}`);
+  }
+  if (cues.halfway) {
+    parts.push(cues.everyMinutes ? 'halfway' : 'Halfway');
+  }
+  return parts.join(' · ');
+}
@@ -0,0 +1,59 @@
+import { CycleSettings } from './storage';
+
+export type CyclePhase = 'focus' | 'shortBreak' | 'longBreak';
+
+export interface CycleProgress {
+  phase: CyclePhase;
+  block: number; // 1-based focus block the phase belongs to
+}
+
+export const INITIAL_CYCLE_PROGRESS: CycleProgress = {
+  phase: 'focus',
+  block: 1,
+};
+
+export const CYCLE_PHASE_LABELS: Record<CyclePhase, string> = {
+  focus: 'Focus',
+  shortBreak: 'Short Break',
+  longBreak: 'Long Break',
+};
+
+export function isBreakPhase(phase: CyclePhase): boolean {
+  return phase !== 'focus';
+}
+
+export function getPhaseMinutes(
+  phase: CyclePhase,
+  settings: CycleSettings
+): number {
+  switch (phase) {
+    case 'shortBreak':
+      return settings.shortBreakMinutes;
+    case 'longBreak':
+      return settings.longBreakMinutes;
+    default:
+      return settings.focusMinutes;
+  }
+}
+
+// Returns the phase that follows `progress`, or null once the break after
+// the last focus block has finished.
+export function getNextCycleProgress(
+  progress: CycleProgress,
+  settings: CycleSettings
+): CycleProgress | null {
+  if (progress.phase === 'focus') {
+    const isLongBreak =
+      progress.block % settings.longBreakInterval === 0 ||
+      progress.block >= settings.focusBlocks;
+    return {
+      phase: isLongBreak ? 'longBreak' : 'shortBreak',
+      block: progress.block,
+    };
+  }
+
+  if (progress.block >= settings.focusBlocks) {
+    return null;
+  }
+  return { phase: 'focus', block: progress.block + 1 };
+}
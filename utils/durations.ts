@@ -0,0 +1,32 @@
+import { DurationPreset } from './storage';
+
+export const MAX_DURATION_MINUTES = 12 * 60;
+
+// Short chip label, e.g. "30s", "45m", "1h 30m"
+export function formatDurationLabel(minutes: number): string {
+  if (minutes < 1) {
+    return `${Math.round(minutes * 60)}s`;
+  }
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+export function getPresetLabel(preset: DurationPreset): string {
+  const duration = formatDurationLabel(preset.minutes);
+  return preset.name ? `${preset.name} · ${duration}` : duration;
+}
+
+export function createDurationPreset(
+  minutes: number,
+  name?: string
+): DurationPreset {
+  return {
+    id: `preset_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    minutes,
+    name: name?.trim() || undefined,
+  };
+}
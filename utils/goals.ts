@@ -0,0 +1,70 @@
+import { FocusSession, GoalSettings } from './storage';
+import { getDayKey } from './sessions';
+import { getPeriodStart, shiftPeriod } from './stats';
+
+export interface GoalStatus {
+  focusedMinutes: number; // today
+  goalMinutes: number;
+  progress: number; // 0..1
+  isMet: boolean;
+  streak: number; // consecutive days the goal was met
+}
+
+// Minutes focused per local day, keyed by getDayKey
+export function getDailyMinutes(
+  sessions: FocusSession[]
+): Record<string, number> {
+  return sessions.reduce((totals, session) => {
+    const day = getDayKey(session.startedAt);
+    totals[day] = (totals[day] || 0) + session.actualDuration / 60000;
+    return totals;
+  }, {} as Record<string, number>);
+}
+
+// Counts back from today. Today only adds to the streak once the goal is
+// met, it never breaks it. With freezes enabled, one missed day per
+// Monday-based week is skipped over without counting.
+export function getStreak(
+  sessions: FocusSession[],
+  settings: GoalSettings,
+  now = Date.now()
+): number {
+  const dailyMinutes = getDailyMinutes(sessions);
+  const isMet = (day: number) =>
+    (dailyMinutes[getDayKey(day)] || 0) >= settings.dailyMinutes;
+
+  const today = getPeriodStart(now, 'day');
+  const frozenWeeks = new Set<number>();
+  let streak = isMet(today) ? 1 : 0;
+  let day = shiftPeriod(today, 'day', -1);
+
+  while (true) {
+    if (isMet(day)) {
+      streak++;
+    } else {
+      const week = getPeriodStart(day, 'week');
+      if (!settings.freezeEnabled || frozenWeeks.has(week)) break;
+      frozenWeeks.add(week);
+    }
+    day = shiftPeriod(day, 'day', -1);
+  }
+
+  return streak;
+}
+
+export function getGoalStatus(
+  sessions: FocusSession[],
+  settings: GoalSettings,
+  now = Date.now()
+): GoalStatus {
+  const minutesToday = getDailyMinutes(sessions)[getDayKey(now)] || 0;
+  const goalMinutes = settings.dailyMinutes;
+
+  return {
+    focusedMinutes: Math.floor(minutesToday),
+    goalMinutes,
+    progress: goalMinutes > 0 ? Math.min(1, minutesToday / goalMinutes) : 1,
+    isMet: minutesToday >= goalMinutes,
+    streak: getStreak(sessions, settings, now),
+  };
+}
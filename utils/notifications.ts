@@ -0,0 +1,192 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { SoundOption } from './audio';
+
+// Reusing one identifier means a new schedule replaces the old one
+const SESSION_END_ID = 'session-end';
+const BELL_CHANNEL_ID = 'session-bell';
+// Bundled via app.json; Android resource names allow only [a-z0-9_]
+const BELL_SOUND_FILE = 'session_bell.wav';
+
+// Action buttons shown on the end-of-focus and still-running notifications
+export const NOTIFICATION_CATEGORIES = {
+  focusEnd: 'focus-end',
+  focusRunning: 'focus-running',
+};
+
+export type SessionAction = 'extend' | 'startBreak' | 'pause' | 'stop';
+
+export const NOTIFICATION_EXTEND_MINUTES = 5;
+
+const SESSION_ACTIONS: SessionAction[] = [
+  'extend',
+  'startBreak',
+  'pause',
+  'stop',
+];
+
+export class NotificationService {
+  private static leaveNudgeId: string | null = null;
+
+  static async initialize() {
+    if (Platform.OS === 'web') return;
+
+    try {
+      // Every action opens the app, since the timer lives in the focus screen
+      await Notifications.setNotificationCategoryAsync(
+        NOTIFICATION_CATEGORIES.focusEnd,
+        [
+          {
+            identifier: 'extend',
+            buttonTitle: `+${NOTIFICATION_EXTEND_MINUTES} min`,
+            options: { opensAppToForeground: true },
+          },
+          {
+            identifier: 'startBreak',
+            buttonTitle: 'Start break',
+            options: { opensAppToForeground: true },
+          },
+        ]
+      );
+      await Notifications.setNotificationCategoryAsync(
+        NOTIFICATION_CATEGORIES.focusRunning,
+        [
+          {
+            identifier: 'pause',
+            buttonTitle: 'Pause',
+            options: { opensAppToForeground: true },
+          },
+          {
+            identifier: 'stop',
+            buttonTitle: 'Stop',
+            options: { opensAppToForeground: true, isDestructive: true },
+          },
+        ]
+      );
+
+      if (Platform.OS === 'android') {
+        // Android picks the sound per channel, not per notification
+        await Notifications.setNotificationChannelAsync(BELL_CHANNEL_ID, {
+          name: 'Session end',
+          importance: Notifications.AndroidImportance.HIGH,
+          sound: BELL_SOUND_FILE,
+        });
+      }
+    } catch (error) {
+      console.error('Error setting up notifications:', error);
+    }
+  }
+
+  // Calls back with the action button the user tapped; plain taps on a
+  // notification just open the app and are ignored
+  static addActionListener(listener: (action: SessionAction) => void) {
+    return Notifications.addNotificationResponseReceivedListener((response) => {
+      const action = response.actionIdentifier as SessionAction;
+      if (SESSION_ACTIONS.includes(action)) {
+        // Handled here, so the next launch must not replay it
+        Notifications.clearLastNotificationResponseAsync().catch((error) =>
+          console.error('Error clearing notification response:', error)
+        );
+        listener(action);
+      }
+    });
+  }
+
+  // The action button that launched the app while it was closed, if any.
+  // It is cleared once read so it only runs once.
+  static async getLaunchAction(): Promise<SessionAction | null> {
+    if (Platform.OS === 'web') return null;
+
+    try {
+      const response = await Notifications.getLastNotificationResponseAsync();
+      if (!response) return null;
+      await Notifications.clearLastNotificationResponseAsync();
+      const action = response.actionIdentifier as SessionAction;
+      return SESSION_ACTIONS.includes(action) ? action : null;
+    } catch (error) {
+      console.error('Error reading notification launch action:', error);
+      return null;
+    }
+  }
+
+  // Lets the OS announce the end of a session, since the JS timer stops
+  // while the screen is locked. Only the bundled bell can be used as a
+  // notification sound; custom sounds fall back to the system sound.
+  static async scheduleSessionEnd(
+    endTime: number,
+    content: { title: string; body: string; categoryIdentifier?: string },
+    sound: SoundOption | null
+  ) {
+    if (Platform.OS === 'web') return;
+
+    const useBell = !sound || sound.id === 'default_bell';
+    try {
+      await Notifications.scheduleNotificationAsync({
+        identifier: SESSION_END_ID,
+        content: {
+          ...content,
+          sound: useBell ? BELL_SOUND_FILE : true,
+          data: { type: SESSION_END_ID },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: endTime,
+          channelId: useBell ? BELL_CHANNEL_ID : undefined,
+        },
+      });
+    } catch (error) {
+      console.error('Error scheduling session end notification:', error);
+    }
+  }
+
+  static async cancelSessionEnd() {
+    if (Platform.OS === 'web') return;
+
+    try {
+      await Notifications.cancelScheduledNotificationAsync(SESSION_END_ID);
+    } catch (error) {
+      console.error('Error cancelling session end notification:', error);
+    }
+  }
+
+  // The timer plays its own sound while the app is open
+  static isSessionEnd(notification: Notifications.Notification) {
+    return notification.request.content.data?.type === SESSION_END_ID;
+  }
+
+  // Reminds the user to come back if they are still away once the grace
+  // period is over. Permission is requested when audio is initialized.
+  static async scheduleLeaveNudge(task: string, graceSeconds: number) {
+    if (Platform.OS === 'web') return;
+
+    try {
+      await this.cancelLeaveNudge();
+      this.leaveNudgeId = await Notifications.scheduleNotificationAsync({
+        content: {
+          title: 'Your focus session is still running',
+          body: task ? `Come back to ${task}` : 'Come back to your focus',
+          sound: true,
+          categoryIdentifier: NOTIFICATION_CATEGORIES.focusRunning,
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+          seconds: Math.max(1, graceSeconds),
+        },
+      });
+    } catch (error) {
+      console.error('Error scheduling leave nudge:', error);
+    }
+  }
+
+  static async cancelLeaveNudge() {
+    if (!this.leaveNudgeId) return;
+
+    const id = this.leaveNudgeId;
+    this.leaveNudgeId = null;
+    try {
+      await Notifications.cancelScheduledNotificationAsync(id);
+    } catch (error) {
+      console.error('Error cancelling leave nudge:', error);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { Activity } from './storage';
+
+// How many of the latest rewards to hold back before they come up again
+export const REWARD_MEMORY = 3;
+
+export const FAVORITE_MULTIPLIER = 2;
+
+export const REWARD_FREQUENCIES = [
+  { value: 0.5, label: 'Less often' },
+  { value: 1, label: 'Normal' },
+  { value: 2, label: 'More often' },
+];
+
+export interface RewardPickOptions {
+  recentIds?: string[]; // latest picks, newest first
+  memory?: number; // how many recent picks to avoid
+  excludeId?: string | null; // the activity being swapped out
+  random?: () => number; // defaults to Math.random; see createSeededRandom
+}
+
+export function getRewardWeight(activity: Activity): number {
+  const weight = activity.weight ?? 1;
+  return activity.favorite ? weight * FAVORITE_MULTIPLIER : weight;
+}
+
+// Small deterministic generator (mulberry32) so picks can be replayed
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pickWeighted<T>(
+  items: T[],
+  getWeight: (item: T) => number,
+  random: () => number
+): T {
+  const total = items.reduce((sum, item) => sum + getWeight(item), 0);
+  let roll = random() * total;
+  for (const item of items) {
+    roll -= getWeight(item);
+    if (roll < 0) return item;
+  }
+  return items[items.length - 1];
+}
+
+// Picks a reward in two steps: first a category, so a category with many
+// activities does not crowd out the rest, then an activity within it by
+// weight. Recent picks are skipped while anything else is left.
+export function pickReward(
+  activities: Activity[],
+  options: RewardPickOptions = {}
+): Activity | null {
+  const {
+    recentIds = [],
+    memory = REWARD_MEMORY,
+    excludeId = null,
+    random = Math.random,
+  } = options;
+
+  if (activities.length === 0) return null;
+
+  const others = activities.filter((activity) => activity.id !== excludeId);
+  const pool = others.length > 0 ? others : activities;
+  const avoided = recentIds.slice(0, memory);
+  const fresh = pool.filter((activity) => !avoided.includes(activity.id));
+  const candidates = fresh.length > 0 ? fresh : pool;
+
+  const byCategory: Record<string, Activity[]> = {};
+  candidates.forEach((activity) => {
+    const category = activity.category || 'other';
+    byCategory[category] = [...(byCategory[category] ?? []), activity];
+  });
+
+  // A category counts with the average weight of its activities
+  const categoryActivities = pickWeighted(
+    Object.values(byCategory),
+    (group) =>
+      group.reduce((sum, activity) => sum + getRewardWeight(activity), 0) /
+      group.length,
+    random
+  );
+  return pickWeighted(categoryActivities, getRewardWeight, random);
+}
+
+// Newest first, trimmed to what the picker looks at
+export function rememberReward(
+  recentIds: string[],
+  activityId: string,
+  memory = REWARD_MEMORY
+): string[] {
+  return [activityId, ...recentIds.filter((id) => id !== activityId)].slice(
+    0,
+    memory
+  );
+}
+
+// Whether swapping the current reward can turn up a different one
+export function hasRewardAlternatives(
+  activities: Activity[],
+  currentId: string | null
+): boolean {
+  return activities.some((activity) => activity.id !== currentId);
+}
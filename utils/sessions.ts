@@ -0,0 +1,197 @@
+import {
+  ActiveSession,
+  FocusSession,
+  ParkedThought,
+  PauseReason,
+  SessionCheckIn,
+  SessionOutcome,
+} from './storage';
+
+export const PAUSE_REASON_LABELS: Record<PauseReason, string> = {
+  phone: '📱 Phone',
+  person: '🗣️ Someone',
+  bathroom: '🚻 Bathroom',
+  lostFocus: '🌀 Lost focus',
+};
+
+export function createActiveSession(
+  task: string,
+  taskId: string | null = null,
+  now = Date.now()
+): ActiveSession {
+  return {
+    id: `session_${now}_${Math.random().toString(36).substr(2, 9)}`,
+    task,
+    taskId: taskId ?? undefined,
+    startedAt: now,
+    pauses: [],
+  };
+}
+
+export function recordCheckIn(
+  session: ActiveSession,
+  checkIn: SessionCheckIn | null
+): ActiveSession {
+  return { ...session, checkIn: checkIn ?? undefined };
+}
+
+export function recordPause(
+  session: ActiveSession,
+  now = Date.now()
+): ActiveSession {
+  return {
+    ...session,
+    pauses: [...session.pauses, { startedAt: now, endedAt: null }],
+  };
+}
+
+export function recordResume(
+  session: ActiveSession,
+  now = Date.now()
+): ActiveSession {
+  return {
+    ...session,
+    pauses: session.pauses.map((pause) =>
+      pause.endedAt === null ? { ...pause, endedAt: now } : pause
+    ),
+  };
+}
+
+// Tags the pause that is still open
+export function setPauseReason(
+  session: ActiveSession,
+  reason: PauseReason
+): ActiveSession {
+  return {
+    ...session,
+    pauses: session.pauses.map((pause) =>
+      pause.endedAt === null ? { ...pause, reason } : pause
+    ),
+  };
+}
+
+// Leaving the app while the timer runs counts as a distraction
+export function recordDistraction(
+  session: ActiveSession,
+  now = Date.now()
+): ActiveSession {
+  return { ...session, distractions: [...(session.distractions ?? []), now] };
+}
+
+// Pauses plus app switches
+export function getInterruptionCount(
+  session: Pick<FocusSession, 'pauses' | 'distractions'>
+): number {
+  return session.pauses.length + (session.distractions?.length ?? 0);
+}
+
+export function addParkedThought(
+  session: ActiveSession,
+  text: string,
+  now = Date.now()
+): ActiveSession {
+  const thought: ParkedThought = {
+    id: `thought_${now}_${Math.random().toString(36).substr(2, 9)}`,
+    text,
+    createdAt: now,
+  };
+  return { ...session, parked: [...(session.parked ?? []), thought] };
+}
+
+export function removeParkedThought(
+  session: ActiveSession,
+  thoughtId: string
+): ActiveSession {
+  return {
+    ...session,
+    parked: (session.parked ?? []).filter(
+      (thought) => thought.id !== thoughtId
+    ),
+  };
+}
+
+export function getPausedDuration(
+  pauses: { startedAt: number; endedAt: number | null }[],
+  now = Date.now()
+): number {
+  return pauses.reduce(
+    (total, pause) => total + ((pause.endedAt ?? now) - pause.startedAt),
+    0
+  );
+}
+
+export function finishSession(
+  session: ActiveSession,
+  options: {
+    plannedDuration: number;
+    outcome: SessionOutcome;
+    rewardActivity?: FocusSession['rewardActivity'];
+    completedSubtasks?: string[];
+    flow?: boolean; // open-ended, so the plan doesn't cap the session
+    overtime?: number; // ms kept going after the plan ran out
+  },
+  now = Date.now()
+): FocusSession {
+  // A completed session cannot outlast its plan. This matters when the
+  // completion is only noticed after the app was closed.
+  const endedAt =
+    options.outcome === 'completed' && !options.flow
+      ? Math.min(
+          now,
+          session.startedAt +
+            options.plannedDuration +
+            (options.overtime ?? 0) +
+            getPausedDuration(session.pauses, now)
+        )
+      : now;
+  const closed = recordResume(session, endedAt);
+  return {
+    id: closed.id,
+    task: closed.task,
+    taskId: closed.taskId,
+    plannedDuration: options.plannedDuration,
+    actualDuration: Math.max(
+      0,
+      endedAt - closed.startedAt - getPausedDuration(closed.pauses, endedAt)
+    ),
+    startedAt: closed.startedAt,
+    endedAt,
+    pauses: closed.pauses,
+    outcome: options.outcome,
+    rewardActivity: options.rewardActivity ?? null,
+    completedSubtasks: options.completedSubtasks,
+    flow: options.flow || undefined,
+    overtime: options.overtime || undefined,
+    parked: closed.parked?.length ? closed.parked : undefined,
+    checkIn: closed.checkIn,
+    distractions: closed.distractions?.length ? closed.distractions : undefined,
+  };
+}
+
+// Local calendar day, e.g. "2025-03-07"
+export function getDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Newest day first, newest session first within a day
+export function groupSessionsByDay(
+  sessions: FocusSession[]
+): { day: string; sessions: FocusSession[] }[] {
+  const groups: Record<string, FocusSession[]> = {};
+  [...sessions]
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .forEach((session) => {
+      const day = getDayKey(session.startedAt);
+      if (!groups[day]) {
+        groups[day] = [];
+      }
+      groups[day].push(session);
+    });
+
+  return Object.keys(groups)
+    .sort((a, b) => b.localeCompare(a))
+    .map((day) => ({ day, sessions: groups[day] }));
+}
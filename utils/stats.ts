@@ -0,0 +1,192 @@
+import { FocusSession, PauseReason, SessionCheckIn } from './storage';
+import { getInterruptionCount } from './sessions';
+
+export type StatsPeriod = 'day' | 'week' | 'month';
+
+export interface SessionSummary {
+  totalFocused: number; // ms
+  sessionCount: number;
+  completedCount: number;
+  averageSessionLength: number; // ms
+  completionRate: number; // 0..1
+  interruptionCount: number; // pauses plus app switches
+  averageInterruptions: number; // per session
+}
+
+export interface FocusBucket {
+  start: number; // epoch ms, local start of the period
+  end: number; // epoch ms, exclusive
+  totalFocused: number; // ms
+  sessionCount: number;
+  interruptionCount: number;
+}
+
+export interface CheckInLevelSummary {
+  level: number; // 1..5
+  sessionCount: number;
+  completionRate: number; // 0..1
+  averageFocusRating: number | null; // null when no session was rated
+}
+
+// Local start of the day, week (Monday) or month containing the timestamp
+export function getPeriodStart(timestamp: number, period: StatsPeriod): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  if (period === 'week') {
+    const daysSinceMonday = (date.getDay() + 6) % 7;
+    date.setDate(date.getDate() - daysSinceMonday);
+  } else if (period === 'month') {
+    date.setDate(1);
+  }
+  return date.getTime();
+}
+
+// Moves a period start by whole periods; works on calendar fields so
+// daylight saving changes don't shift the boundaries.
+export function shiftPeriod(
+  start: number,
+  period: StatsPeriod,
+  amount: number
+): number {
+  const date = new Date(start);
+  if (period === 'day') {
+    date.setDate(date.getDate() + amount);
+  } else if (period === 'week') {
+    date.setDate(date.getDate() + amount * 7);
+  } else {
+    date.setMonth(date.getMonth() + amount);
+  }
+  return date.getTime();
+}
+
+export function summarizeSessions(sessions: FocusSession[]): SessionSummary {
+  const totalFocused = sessions.reduce(
+    (total, session) => total + session.actualDuration,
+    0
+  );
+  const completedCount = sessions.filter(
+    (session) => session.outcome === 'completed'
+  ).length;
+  const interruptionCount = sessions.reduce(
+    (total, session) => total + getInterruptionCount(session),
+    0
+  );
+
+  return {
+    totalFocused,
+    sessionCount: sessions.length,
+    completedCount,
+    averageSessionLength:
+      sessions.length > 0 ? totalFocused / sessions.length : 0,
+    completionRate: sessions.length > 0 ? completedCount / sessions.length : 0,
+    interruptionCount,
+    averageInterruptions:
+      sessions.length > 0 ? interruptionCount / sessions.length : 0,
+  };
+}
+
+export function getSessionsInPeriod(
+  sessions: FocusSession[],
+  period: StatsPeriod,
+  now = Date.now()
+): FocusSession[] {
+  const start = getPeriodStart(now, period);
+  const end = shiftPeriod(start, period, 1);
+  return sessions.filter(
+    (session) => session.startedAt >= start && session.startedAt < end
+  );
+}
+
+// Focus totals for the last `count` periods up to and including the current
+// one, oldest first.
+export function getFocusBuckets(
+  sessions: FocusSession[],
+  period: StatsPeriod,
+  count: number,
+  now = Date.now()
+): FocusBucket[] {
+  const current = getPeriodStart(now, period);
+  const buckets: FocusBucket[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const start = shiftPeriod(current, period, -i);
+    buckets.push({
+      start,
+      end: shiftPeriod(start, period, 1),
+      totalFocused: 0,
+      sessionCount: 0,
+      interruptionCount: 0,
+    });
+  }
+
+  sessions.forEach((session) => {
+    const bucket = buckets.find(
+      (b) => session.startedAt >= b.start && session.startedAt < b.end
+    );
+    if (bucket) {
+      bucket.totalFocused += session.actualDuration;
+      bucket.sessionCount += 1;
+      bucket.interruptionCount += getInterruptionCount(session);
+    }
+  });
+
+  return buckets;
+}
+
+// Groups sessions by the energy or mood reported before they started, to
+// show how each level relates to finishing and to the focus rating given
+// afterwards. Levels nobody picked are left out.
+export function summarizeByCheckIn(
+  sessions: FocusSession[],
+  field: keyof SessionCheckIn
+): CheckInLevelSummary[] {
+  const summaries: CheckInLevelSummary[] = [];
+  for (let level = 1; level <= 5; level++) {
+    const matching = sessions.filter(
+      (session) => session.checkIn?.[field] === level
+    );
+    if (matching.length === 0) continue;
+
+    const ratings = matching
+      .map((session) => session.reflection?.focusRating ?? null)
+      .filter((rating): rating is number => rating !== null);
+    summaries.push({
+      level,
+      sessionCount: matching.length,
+      completionRate: summarizeSessions(matching).completionRate,
+      averageFocusRating:
+        ratings.length > 0
+          ? ratings.reduce((total, rating) => total + rating, 0) /
+            ratings.length
+          : null,
+    });
+  }
+  return summaries;
+}
+
+// How often each reason was picked for a pause; untagged pauses and app
+// switches are counted separately
+export function countInterruptionsByReason(sessions: FocusSession[]): {
+  reasons: Record<PauseReason, number>;
+  untagged: number;
+  appSwitches: number;
+} {
+  const reasons: Record<PauseReason, number> = {
+    phone: 0,
+    person: 0,
+    bathroom: 0,
+    lostFocus: 0,
+  };
+  let untagged = 0;
+  let appSwitches = 0;
+  sessions.forEach((session) => {
+    session.pauses.forEach((pause) => {
+      if (pause.reason) {
+        reasons[pause.reason] += 1;
+      } else {
+        untagged += 1;
+      }
+    });
+    appSwitches += session.distractions?.length ?? 0;
+  });
+  return { reasons, untagged, appSwitches };
+}
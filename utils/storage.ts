@@ -1,5 +1,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { SoundOption } from './audio';
+import { CycleProgress } from './cycle';
+import { TimerMode } from './timer';
 
 const STORAGE_KEYS = {
   ACTIVITIES: 'enfoque_activities',
@@ -9,6 +11,20 @@ const STORAGE_KEYS = {
   TIMER_STATE: 'enfoque_timer_state',
   LANGUAGE: 'enfoque_language',
   CUSTOM_CATEGORIES: 'enfoque_custom_categories',
+  CYCLE_SETTINGS: 'enfoque_cycle_settings',
+  BREAK_SETTINGS: 'enfoque_break_settings',
+  SESSIONS: 'enfoque_sessions',
+  GOAL_SETTINGS: 'enfoque_goal_settings',
+  TASKS: 'enfoque_tasks',
+  DURATION_PRESETS: 'enfoque_duration_presets',
+  FLOW_SETTINGS: 'enfoque_flow_settings',
+  TIMER_DISPLAY_SETTINGS: 'enfoque_timer_display_settings',
+  WARNING_SETTINGS: 'enfoque_warning_settings',
+  REFLECTION_SETTINGS: 'enfoque_reflection_settings',
+  CHECK_IN_SETTINGS: 'enfoque_check_in_settings',
+  LEAVE_NUDGE_SETTINGS: 'enfoque_leave_nudge_settings',
+  RECENT_REWARDS: 'enfoque_recent_rewards',
+  HIDDEN_CATEGORIES: 'enfoque_hidden_categories',
 };
 
 export interface Activity {
@@ -17,8 +33,244 @@ export interface Activity {
   category: string;
   emoji: string;
   createdAt: number;
+  breakMinutes?: number; // overrides the default break length
+  weight?: number; // how often it comes up as a reward, 1 by default
+  favorite?: boolean; // comes up more often still
 }
 
+export interface Subtask {
+  id: string;
+  title: string;
+  done: boolean;
+  completedAt: number | null;
+}
+
+export interface Task {
+  id: string;
+  title: string;
+  notes: string;
+  estimatedSessions: number | null;
+  completedSessions: number;
+  done: boolean;
+  createdAt: number;
+  subtasks?: Subtask[]; // in checklist order
+}
+
+export type PauseReason = 'phone' | 'person' | 'bathroom' | 'lostFocus';
+
+export interface SessionPause {
+  startedAt: number;
+  endedAt: number | null; // null while still paused
+  reason?: PauseReason; // picked with one tap while paused
+}
+
+// A stray thought or to-do jotted down mid-session to deal with later
+export interface ParkedThought {
+  id: string;
+  text: string;
+  createdAt: number;
+}
+
+// A focus session that is still running or paused
+export interface ActiveSession {
+  id: string;
+  task: string;
+  taskId?: string; // set when the session was started from the task list
+  startedAt: number;
+  pauses: SessionPause[];
+  parked?: ParkedThought[];
+  checkIn?: SessionCheckIn;
+  distractions?: number[]; // times the app was left mid-session
+}
+
+export type SessionOutcome = 'completed' | 'abandoned';
+
+// How the user felt right before starting, each 1 (low) to 5 (high)
+export interface SessionCheckIn {
+  energy: number | null;
+  mood: number | null;
+}
+
+// Answers to the optional prompt after a completed session
+export interface SessionReflection {
+  focusRating: number | null; // 1 (scattered) to 5 (locked in)
+  finished: boolean | null; // did the user finish what they set out to do
+  note: string;
+}
+
+export interface FocusSession {
+  id: string;
+  task: string;
+  taskId?: string;
+  plannedDuration: number; // ms
+  actualDuration: number; // ms spent focusing, pauses excluded
+  startedAt: number;
+  endedAt: number;
+  pauses: SessionPause[];
+  outcome: SessionOutcome;
+  rewardActivity: Pick<Activity, 'id' | 'name' | 'emoji'> | null;
+  completedSubtasks?: string[]; // titles ticked off during the session
+  flow?: boolean; // counted up with no fixed end
+  overtime?: number; // ms worked past the plan, included in actualDuration
+  parked?: ParkedThought[]; // captured during the session
+  reflection?: SessionReflection; // missing when skipped or turned off
+  checkIn?: SessionCheckIn; // missing when skipped or turned off
+  distractions?: number[]; // times the app was left mid-session
+}
+
+export interface TimerState {
+  task: string;
+  taskId?: string;
+  mode?: TimerMode; // missing for countdown sessions saved before flow mode
+  duration: number; // ms
+  endTime: number | null; // set while running
+  pausedRemaining: number | null; // set while paused
+  startTime?: number | null; // set while counting up
+  pausedElapsed?: number | null; // set while a count-up is paused
+  overtime?: boolean; // counting up past a finished countdown
+  plannedMinutes?: number; // focus length picked before starting, without extensions
+  presetId?: string; // duration preset the focus length came from, for its cues
+  selectedSound: SoundOption | null;
+  cycle?: CycleProgress; // current phase; block is only used in cycle mode
+  session?: ActiveSession; // set during focus phases
+}
+
+export interface CycleSettings {
+  enabled: boolean;
+  focusBlocks: number;
+  focusMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  longBreakInterval: number; // long break after every Nth block
+  autoStartBreaks: boolean;
+  autoStartFocus: boolean;
+}
+
+export const DEFAULT_CYCLE_SETTINGS: CycleSettings = {
+  enabled: false,
+  focusBlocks: 4,
+  focusMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakInterval: 4,
+  autoStartBreaks: false,
+  autoStartFocus: false,
+};
+
+export interface BreakSettings {
+  defaultMinutes: number;
+  sound: SoundOption | null; // played when a break ends
+}
+
+export const DEFAULT_BREAK_SETTINGS: BreakSettings = {
+  defaultMinutes: 5,
+  sound: null,
+};
+
+export type CueFeedback = 'sound' | 'haptic' | 'both';
+
+// Gentle reminders of passing time while a focus session runs
+export interface IntervalCues {
+  everyMinutes: number | null; // null for no repeating cue
+  halfway: boolean;
+  feedback: CueFeedback;
+}
+
+export const DEFAULT_INTERVAL_CUES: IntervalCues = {
+  everyMinutes: null,
+  halfway: false,
+  feedback: 'both',
+};
+
+export interface DurationPreset {
+  id: string;
+  minutes: number;
+  name?: string; // shown next to the duration on the chip
+  cues?: IntervalCues; // no cues when missing
+}
+
+export const DEFAULT_DURATION_PRESETS: DurationPreset[] = [
+  { id: 'preset_30s', minutes: 0.5 },
+  { id: 'preset_1m', minutes: 1 },
+  { id: 'preset_5m', minutes: 5 },
+  { id: 'preset_10m', minutes: 10 },
+  { id: 'preset_15m', minutes: 15 },
+  { id: 'preset_25m', minutes: 25 },
+  { id: 'preset_30m', minutes: 30 },
+  { id: 'preset_45m', minutes: 45 },
+  { id: 'preset_60m', minutes: 60 },
+];
+
+export interface FlowSettings {
+  enabled: boolean;
+  targetMinutes: number | null; // soft target that chimes once
+}
+
+export const DEFAULT_FLOW_SETTINGS: FlowSettings = {
+  enabled: false,
+  targetMinutes: 45,
+};
+
+// digits only, ring with digits inside, ring only, or a shrinking disc
+export type TimerDisplayStyle = 'digits' | 'both' | 'ring' | 'disc';
+
+export interface TimerDisplaySettings {
+  style: TimerDisplayStyle;
+  hideDigitsDuringFocus: boolean;
+}
+
+export const DEFAULT_TIMER_DISPLAY_SETTINGS: TimerDisplaySettings = {
+  style: 'both',
+  hideDigitsDuringFocus: false,
+};
+
+// Heads-up before a focus session or break ends
+export interface WarningSettings {
+  offsetsMinutes: number[]; // before the end, largest first
+  feedback: CueFeedback;
+}
+
+export const DEFAULT_WARNING_SETTINGS: WarningSettings = {
+  offsetsMinutes: [5, 1],
+  feedback: 'both',
+};
+
+export interface ReflectionSettings {
+  enabled: boolean; // ask for a reflection after each completed session
+}
+
+export const DEFAULT_REFLECTION_SETTINGS: ReflectionSettings = {
+  enabled: true,
+};
+
+export interface CheckInSettings {
+  enabled: boolean; // ask for energy and mood before each focus session
+}
+
+export const DEFAULT_CHECK_IN_SETTINGS: CheckInSettings = {
+  enabled: true,
+};
+
+export interface LeaveNudgeSettings {
+  enabled: boolean; // notify when the app is left during a focus session
+  graceSeconds: number; // how long to stay away before the nudge
+}
+
+export const DEFAULT_LEAVE_NUDGE_SETTINGS: LeaveNudgeSettings = {
+  enabled: true,
+  graceSeconds: 30,
+};
+
+export interface GoalSettings {
+  dailyMinutes: number;
+  freezeEnabled: boolean; // one missed day per week keeps the streak alive
+}
+
+export const DEFAULT_GOAL_SETTINGS: GoalSettings = {
+  dailyMinutes: 60,
+  freezeEnabled: false,
+};
+
 export interface CustomCategory {
   id: string;
   name: string;
@@ -81,6 +333,25 @@ export const StorageService = {
     }
   },
 
+  // Recent Rewards (newest first, so the picker can avoid repeats)
+  async getRecentRewards(): Promise<string[]> {
+    try {
+      const recent = await AsyncStorage.getItem(STORAGE_KEYS.RECENT_REWARDS);
+      return recent ? JSON.parse(recent) : [];
+    } catch (error) {
+      console.error('Error getting recent rewards:', error);
+      return [];
+    }
+  },
+
+  async saveRecentRewards(activityIds: string[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.RECENT_REWARDS, JSON.stringify(activityIds));
+    } catch (error) {
+      console.error('Error saving recent rewards:', error);
+    }
+  },
+
   // Custom Categories
   async getCustomCategories(): Promise<CustomCategory[]> {
     try {
@@ -110,6 +381,16 @@ export const StorageService = {
     }
   },
 
+  async updateCustomCategory(category: CustomCategory): Promise<void> {
+    try {
+      const existingCategories = await this.getCustomCategories();
+      const updatedCategories = existingCategories.map(cat => cat.id === category.id ? category : cat);
+      await this.saveCustomCategories(updatedCategories);
+    } catch (error) {
+      console.error('Error updating custom category:', error);
+    }
+  },
+
   async removeCustomCategory(categoryId: string): Promise<void> {
     try {
       const existingCategories = await this.getCustomCategories();
@@ -120,10 +401,34 @@ export const StorageService = {
     }
   },
 
+  // Ids of default categories the user has hidden
+  async getHiddenCategories(): Promise<string[]> {
+    try {
+      const hidden = await AsyncStorage.getItem(STORAGE_KEYS.HIDDEN_CATEGORIES);
+      return hidden ? JSON.parse(hidden) : [];
+    } catch (error) {
+      console.error('Error getting hidden categories:', error);
+      return [];
+    }
+  },
+
+  async saveHiddenCategories(categoryIds: string[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.HIDDEN_CATEGORIES, JSON.stringify(categoryIds));
+    } catch (error) {
+      console.error('Error saving hidden categories:', error);
+    }
+  },
+
+  // Visible categories only: hidden defaults are left out
   async getAllCategories(): Promise<CustomCategory[]> {
     try {
-      const customCategories = await this.getCustomCategories();
-      return [...DEFAULT_CATEGORIES, ...customCategories];
+      const [customCategories, hiddenIds] = await Promise.all([
+        this.getCustomCategories(),
+        this.getHiddenCategories(),
+      ]);
+      const defaultCategories = DEFAULT_CATEGORIES.filter(cat => !hiddenIds.includes(cat.id));
+      return [...defaultCategories, ...customCategories];
     } catch (error) {
       console.error('Error getting all categories:', error);
       return DEFAULT_CATEGORIES;
@@ -259,8 +564,316 @@ export const StorageService = {
     }
   },
 
+  // Cycle Settings
+  async getCycleSettings(): Promise<CycleSettings> {
+    try {
+      const settings = await AsyncStorage.getItem(STORAGE_KEYS.CYCLE_SETTINGS);
+      return settings
+        ? { ...DEFAULT_CYCLE_SETTINGS, ...JSON.parse(settings) }
+        : DEFAULT_CYCLE_SETTINGS;
+    } catch (error) {
+      console.error('Error getting cycle settings:', error);
+      return DEFAULT_CYCLE_SETTINGS;
+    }
+  },
+
+  async saveCycleSettings(settings: CycleSettings): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.CYCLE_SETTINGS, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving cycle settings:', error);
+    }
+  },
+
+  // Break Settings
+  async getBreakSettings(): Promise<BreakSettings> {
+    try {
+      const settings = await AsyncStorage.getItem(STORAGE_KEYS.BREAK_SETTINGS);
+      return settings
+        ? { ...DEFAULT_BREAK_SETTINGS, ...JSON.parse(settings) }
+        : DEFAULT_BREAK_SETTINGS;
+    } catch (error) {
+      console.error('Error getting break settings:', error);
+      return DEFAULT_BREAK_SETTINGS;
+    }
+  },
+
+  async saveBreakSettings(settings: BreakSettings): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.BREAK_SETTINGS, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving break settings:', error);
+    }
+  },
+
+  // Flow Settings
+  async getFlowSettings(): Promise<FlowSettings> {
+    try {
+      const settings = await AsyncStorage.getItem(STORAGE_KEYS.FLOW_SETTINGS);
+      return settings
+        ? { ...DEFAULT_FLOW_SETTINGS, ...JSON.parse(settings) }
+        : DEFAULT_FLOW_SETTINGS;
+    } catch (error) {
+      console.error('Error getting flow settings:', error);
+      return DEFAULT_FLOW_SETTINGS;
+    }
+  },
+
+  async saveFlowSettings(settings: FlowSettings): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.FLOW_SETTINGS, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving flow settings:', error);
+    }
+  },
+
+  // Timer Display Settings
+  async getTimerDisplaySettings(): Promise<TimerDisplaySettings> {
+    try {
+      const settings = await AsyncStorage.getItem(STORAGE_KEYS.TIMER_DISPLAY_SETTINGS);
+      return settings
+        ? { ...DEFAULT_TIMER_DISPLAY_SETTINGS, ...JSON.parse(settings) }
+        : DEFAULT_TIMER_DISPLAY_SETTINGS;
+    } catch (error) {
+      console.error('Error getting timer display settings:', error);
+      return DEFAULT_TIMER_DISPLAY_SETTINGS;
+    }
+  },
+
+  async saveTimerDisplaySettings(settings: TimerDisplaySettings): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.TIMER_DISPLAY_SETTINGS, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving timer display settings:', error);
+    }
+  },
+
+  // Warning Settings
+  async getWarningSettings(): Promise<WarningSettings> {
+    try {
+      const settings = await AsyncStorage.getItem(STORAGE_KEYS.WARNING_SETTINGS);
+      return settings
+        ? { ...DEFAULT_WARNING_SETTINGS, ...JSON.parse(settings) }
+        : DEFAULT_WARNING_SETTINGS;
+    } catch (error) {
+      console.error('Error getting warning settings:', error);
+      return DEFAULT_WARNING_SETTINGS;
+    }
+  },
+
+  async saveWarningSettings(settings: WarningSettings): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.WARNING_SETTINGS, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving warning settings:', error);
+    }
+  },
+
+  // Reflection Settings
+  async getReflectionSettings(): Promise<ReflectionSettings> {
+    try {
+      const settings = await AsyncStorage.getItem(STORAGE_KEYS.REFLECTION_SETTINGS);
+      return settings
+        ? { ...DEFAULT_REFLECTION_SETTINGS, ...JSON.parse(settings) }
+        : DEFAULT_REFLECTION_SETTINGS;
+    } catch (error) {
+      console.error('Error getting reflection settings:', error);
+      return DEFAULT_REFLECTION_SETTINGS;
+    }
+  },
+
+  async saveReflectionSettings(settings: ReflectionSettings): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.REFLECTION_SETTINGS, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving reflection settings:', error);
+    }
+  },
+
+  // Check-in Settings
+  async getCheckInSettings(): Promise<CheckInSettings> {
+    try {
+      const settings = await AsyncStorage.getItem(STORAGE_KEYS.CHECK_IN_SETTINGS);
+      return settings
+        ? { ...DEFAULT_CHECK_IN_SETTINGS, ...JSON.parse(settings) }
+        : DEFAULT_CHECK_IN_SETTINGS;
+    } catch (error) {
+      console.error('Error getting check-in settings:', error);
+      return DEFAULT_CHECK_IN_SETTINGS;
+    }
+  },
+
+  async saveCheckInSettings(settings: CheckInSettings): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.CHECK_IN_SETTINGS, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving check-in settings:', error);
+    }
+  },
+
+  // Leave Nudge Settings
+  async getLeaveNudgeSettings(): Promise<LeaveNudgeSettings> {
+    try {
+      const settings = await AsyncStorage.getItem(STORAGE_KEYS.LEAVE_NUDGE_SETTINGS);
+      return settings
+        ? { ...DEFAULT_LEAVE_NUDGE_SETTINGS, ...JSON.parse(settings) }
+        : DEFAULT_LEAVE_NUDGE_SETTINGS;
+    } catch (error) {
+      console.error('Error getting leave nudge settings:', error);
+      return DEFAULT_LEAVE_NUDGE_SETTINGS;
+    }
+  },
+
+  async saveLeaveNudgeSettings(settings: LeaveNudgeSettings): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.LEAVE_NUDGE_SETTINGS, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving leave nudge settings:', error);
+    }
+  },
+
+  // Goal Settings
+  async getGoalSettings(): Promise<GoalSettings> {
+    try {
+      const settings = await AsyncStorage.getItem(STORAGE_KEYS.GOAL_SETTINGS);
+      return settings
+        ? { ...DEFAULT_GOAL_SETTINGS, ...JSON.parse(settings) }
+        : DEFAULT_GOAL_SETTINGS;
+    } catch (error) {
+      console.error('Error getting goal settings:', error);
+      return DEFAULT_GOAL_SETTINGS;
+    }
+  },
+
+  async saveGoalSettings(settings: GoalSettings): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.GOAL_SETTINGS, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving goal settings:', error);
+    }
+  },
+
+  // Duration Presets
+  async getDurationPresets(): Promise<DurationPreset[]> {
+    try {
+      const presets = await AsyncStorage.getItem(STORAGE_KEYS.DURATION_PRESETS);
+      return presets ? JSON.parse(presets) : DEFAULT_DURATION_PRESETS;
+    } catch (error) {
+      console.error('Error getting duration presets:', error);
+      return DEFAULT_DURATION_PRESETS;
+    }
+  },
+
+  async saveDurationPresets(presets: DurationPreset[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.DURATION_PRESETS, JSON.stringify(presets));
+    } catch (error) {
+      console.error('Error saving duration presets:', error);
+    }
+  },
+
+  // Tasks
+  async getTasks(): Promise<Task[]> {
+    try {
+      const tasks = await AsyncStorage.getItem(STORAGE_KEYS.TASKS);
+      return tasks ? JSON.parse(tasks) : [];
+    } catch (error) {
+      console.error('Error getting tasks:', error);
+      return [];
+    }
+  },
+
+  async saveTasks(tasks: Task[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.TASKS, JSON.stringify(tasks));
+    } catch (error) {
+      console.error('Error saving tasks:', error);
+    }
+  },
+
+  async addTask(task: Task): Promise<void> {
+    try {
+      const existingTasks = await this.getTasks();
+      await this.saveTasks([...existingTasks, task]);
+    } catch (error) {
+      console.error('Error adding task:', error);
+    }
+  },
+
+  async updateTask(taskId: string, updates: Partial<Task>): Promise<void> {
+    try {
+      const existingTasks = await this.getTasks();
+      const updatedTasks = existingTasks.map(task =>
+        task.id === taskId ? { ...task, ...updates } : task
+      );
+      await this.saveTasks(updatedTasks);
+    } catch (error) {
+      console.error('Error updating task:', error);
+    }
+  },
+
+  async removeTask(taskId: string): Promise<void> {
+    try {
+      const existingTasks = await this.getTasks();
+      const updatedTasks = existingTasks.filter(task => task.id !== taskId);
+      await this.saveTasks(updatedTasks);
+    } catch (error) {
+      console.error('Error removing task:', error);
+    }
+  },
+
+  // Session History
+  async getSessions(): Promise<FocusSession[]> {
+    try {
+      const sessions = await AsyncStorage.getItem(STORAGE_KEYS.SESSIONS);
+      return sessions ? JSON.parse(sessions) : [];
+    } catch (error) {
+      console.error('Error getting sessions:', error);
+      return [];
+    }
+  },
+
+  async saveSessions(sessions: FocusSession[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(sessions));
+    } catch (error) {
+      console.error('Error saving sessions:', error);
+    }
+  },
+
+  async addSession(session: FocusSession): Promise<void> {
+    try {
+      const existingSessions = await this.getSessions();
+      await this.saveSessions([...existingSessions, session]);
+    } catch (error) {
+      console.error('Error adding session:', error);
+    }
+  },
+
+  async updateSession(sessionId: string, updates: Partial<FocusSession>): Promise<void> {
+    try {
+      const existingSessions = await this.getSessions();
+      const updatedSessions = existingSessions.map(session =>
+        session.id === sessionId ? { ...session, ...updates } : session
+      );
+      await this.saveSessions(updatedSessions);
+    } catch (error) {
+      console.error('Error updating session:', error);
+    }
+  },
+
+  async removeSession(sessionId: string): Promise<void> {
+    try {
+      const existingSessions = await this.getSessions();
+      const updatedSessions = existingSessions.filter(session => session.id !== sessionId);
+      await this.saveSessions(updatedSessions);
+    } catch (error) {
+      console.error('Error removing session:', error);
+    }
+  },
+
   // Timer State
-  async getTimerState(): Promise<any> {
+  async getTimerState(): Promise<TimerState | null> {
     try {
       const state = await AsyncStorage.getItem(STORAGE_KEYS.TIMER_STATE);
       return state ? JSON.parse(state) : null;
@@ -270,7 +883,7 @@ export const StorageService = {
     }
   },
 
-  async saveTimerState(state: any): Promise<void> {
+  async saveTimerState(state: TimerState): Promise<void> {
     try {
       await AsyncStorage.setItem(STORAGE_KEYS.TIMER_STATE, JSON.stringify(state));
     } catch (error) {
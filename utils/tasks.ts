@@ -0,0 +1,68 @@
+import { Subtask, Task } from './storage';
+
+export function createTask(
+  title: string,
+  notes = '',
+  estimatedSessions: number | null = null
+): Task {
+  return {
+    id: `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    title,
+    notes,
+    estimatedSessions,
+    completedSessions: 0,
+    done: false,
+    createdAt: Date.now(),
+    subtasks: [],
+  };
+}
+
+export function createSubtask(title: string): Subtask {
+  return {
+    id: `subtask_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    title,
+    done: false,
+    completedAt: null,
+  };
+}
+
+export function toggleSubtask(
+  task: Task,
+  subtaskId: string,
+  now = Date.now()
+): Task {
+  return {
+    ...task,
+    subtasks: (task.subtasks ?? []).map((subtask) =>
+      subtask.id === subtaskId
+        ? {
+            ...subtask,
+            done: !subtask.done,
+            completedAt: subtask.done ? null : now,
+          }
+        : subtask
+    ),
+  };
+}
+
+// Titles of the subtasks ticked off since the given time, in checklist order
+export function getSubtasksCompletedSince(task: Task, since: number): string[] {
+  return (task.subtasks ?? [])
+    .filter(
+      (subtask) =>
+        subtask.done &&
+        subtask.completedAt !== null &&
+        subtask.completedAt >= since
+    )
+    .map((subtask) => subtask.title);
+}
+
+// e.g. "2 of 4 sessions" or "3 sessions" when there is no estimate
+export function formatTaskProgress(task: Task): string {
+  if (task.estimatedSessions) {
+    return `${task.completedSessions} of ${task.estimatedSessions} sessions`;
+  }
+  return `${task.completedSessions} ${
+    task.completedSessions === 1 ? 'session' : 'sessions'
+  }`;
+}
@@ -0,0 +1,356 @@
+export type TimerStatus = 'idle' | 'running' | 'paused' | 'completed';
+
+// A count-up timer runs until finish() is called; its duration is a soft
+// target that fires the 'target' event once instead of completing.
+export type TimerMode = 'countdown' | 'countUp';
+
+export interface TimerSnapshot {
+  status: TimerStatus;
+  mode: TimerMode;
+  duration: number; // ms; the soft target in count-up mode, 0 for none
+  remaining: number; // ms
+  elapsed: number; // ms
+  endTime: number | null; // epoch ms, only while counting down
+  startTime: number | null; // epoch ms, only while counting up
+  overtime: boolean; // a finished countdown kept going past zero
+}
+
+export interface TimerRestoreState {
+  mode?: TimerMode;
+  duration: number;
+  endTime: number | null;
+  pausedRemaining: number | null;
+  startTime?: number | null;
+  pausedElapsed?: number | null;
+  overtime?: boolean;
+}
+
+type TimerEvent = 'tick' | 'complete' | 'change' | 'target';
+type TimerListener = (snapshot: TimerSnapshot) => void;
+
+const TICK_INTERVAL = 250;
+
+// Countdown engine that derives the remaining time from a stored end
+// timestamp instead of counting interval callbacks, so it stays exact when
+// JS timers are throttled or the app spends time in the background. Count-up
+// mode works the same way from a stored start timestamp.
+export class TimerEngine {
+  private duration: number;
+  private mode: TimerMode = 'countdown';
+  private endTime: number | null = null;
+  private pausedRemaining: number | null = null;
+  private startTime: number | null = null;
+  private pausedElapsed: number | null = null;
+  private finalElapsed = 0;
+  private completedAt: number | null = null;
+  private targetReached = false;
+  private overtime = false;
+  private status: TimerStatus = 'idle';
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private lastTickSecond: number | null = null;
+  private listeners: Record<TimerEvent, Set<TimerListener>> = {
+    tick: new Set(),
+    complete: new Set(),
+    change: new Set(),
+    target: new Set(),
+  };
+
+  constructor(durationMs: number) {
+    this.duration = durationMs;
+  }
+
+  on(event: TimerEvent, listener: TimerListener): () => void {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  getStatus(): TimerStatus {
+    return this.status;
+  }
+
+  getMode(): TimerMode {
+    return this.mode;
+  }
+
+  getElapsed(now = Date.now()): number {
+    if (this.mode === 'countdown') {
+      return this.duration - this.getRemaining(now);
+    }
+    if (this.status === 'running' && this.startTime !== null) {
+      return Math.max(0, now - this.startTime);
+    }
+    if (this.status === 'paused' && this.pausedElapsed !== null) {
+      return this.pausedElapsed;
+    }
+    if (this.status === 'completed') {
+      return this.finalElapsed;
+    }
+    return 0;
+  }
+
+  getRemaining(now = Date.now()): number {
+    if (this.mode === 'countUp') {
+      return Math.max(0, this.duration - this.getElapsed(now));
+    }
+    if (this.status === 'running' && this.endTime !== null) {
+      return Math.max(0, this.endTime - now);
+    }
+    if (this.status === 'paused' && this.pausedRemaining !== null) {
+      return this.pausedRemaining;
+    }
+    if (this.status === 'completed') {
+      return 0;
+    }
+    return this.duration;
+  }
+
+  getSnapshot(now = Date.now()): TimerSnapshot {
+    return {
+      status: this.status,
+      mode: this.mode,
+      duration: this.duration,
+      remaining: this.getRemaining(now),
+      elapsed: this.getElapsed(now),
+      endTime:
+        this.status === 'running' && this.mode === 'countdown'
+          ? this.endTime
+          : null,
+      startTime:
+        this.status === 'running' && this.mode === 'countUp'
+          ? this.startTime
+          : null,
+      overtime: this.overtime,
+    };
+  }
+
+  start(durationMs?: number, mode: TimerMode = 'countdown') {
+    if (durationMs !== undefined) {
+      this.duration = durationMs;
+    }
+    this.clearClock();
+    this.mode = mode;
+    if (mode === 'countUp') {
+      this.startTime = Date.now();
+    } else {
+      this.endTime = Date.now() + this.duration;
+    }
+    this.status = 'running';
+    this.startTicking();
+    this.emit('change');
+  }
+
+  pause() {
+    if (this.status !== 'running') return;
+    if (this.mode === 'countUp') {
+      this.pausedElapsed = this.getElapsed();
+      this.startTime = null;
+    } else {
+      this.pausedRemaining = this.getRemaining();
+      this.endTime = null;
+    }
+    this.status = 'paused';
+    this.stopTicking();
+    this.emit('change');
+  }
+
+  resume() {
+    if (this.status !== 'paused') return;
+    if (this.mode === 'countUp') {
+      if (this.pausedElapsed === null) return;
+      this.startTime = Date.now() - this.pausedElapsed;
+      this.pausedElapsed = null;
+    } else {
+      if (this.pausedRemaining === null) return;
+      this.endTime = Date.now() + this.pausedRemaining;
+      this.pausedRemaining = null;
+    }
+    this.status = 'running';
+    this.startTicking();
+    this.emit('change');
+  }
+
+  reset(durationMs?: number, mode: TimerMode = 'countdown') {
+    if (durationMs !== undefined) {
+      this.duration = durationMs;
+    }
+    this.clearClock();
+    this.mode = mode;
+    this.status = 'idle';
+    this.stopTicking();
+    this.emit('change');
+  }
+
+  // Ends a count-up session, keeping the elapsed time for getElapsed()
+  finish() {
+    if (this.mode !== 'countUp') return;
+    if (this.status !== 'running' && this.status !== 'paused') return;
+    this.complete();
+  }
+
+  // Keeps a finished countdown going past zero. It carries on as a count-up
+  // whose target is already reached, so the overtime is elapsed - duration.
+  startOvertime() {
+    if (this.mode !== 'countdown' || this.status !== 'completed') return;
+    const completedAt = this.completedAt ?? Date.now();
+    this.clearClock();
+    this.mode = 'countUp';
+    this.overtime = true;
+    this.targetReached = true;
+    this.startTime = completedAt - this.duration;
+    this.status = 'running';
+    this.startTicking();
+    this.emit('change');
+  }
+
+  // Adds time to the current session; the planned duration grows with it.
+  extend(ms: number) {
+    if (this.mode === 'countUp') return;
+    this.duration += ms;
+    if (this.status === 'running' && this.endTime !== null) {
+      this.endTime += ms;
+    } else if (this.status === 'paused' && this.pausedRemaining !== null) {
+      this.pausedRemaining += ms;
+    } else if (this.status === 'completed') {
+      this.endTime = Date.now() + ms;
+      this.status = 'running';
+      this.startTicking();
+    }
+    this.emit('change');
+  }
+
+  // Rebuilds a running or paused session from persisted values. A running
+  // session whose end time has already passed completes straight away.
+  restore(state: TimerRestoreState) {
+    this.duration = state.duration;
+    this.clearClock();
+    this.mode = state.mode ?? 'countdown';
+
+    if (this.mode === 'countUp') {
+      this.overtime = state.overtime ?? false;
+      if (state.startTime != null) {
+        this.startTime = state.startTime;
+        this.status = 'running';
+        this.startTicking();
+      } else if (state.pausedElapsed != null) {
+        this.pausedElapsed = state.pausedElapsed;
+        this.status = 'paused';
+        this.stopTicking();
+      } else {
+        this.status = 'idle';
+        this.stopTicking();
+      }
+      // Don't chime again for a target passed before the restart
+      this.targetReached =
+        this.duration > 0 && this.getElapsed() >= this.duration;
+    } else if (state.endTime !== null) {
+      this.endTime = state.endTime;
+      this.status = 'running';
+      if (this.getRemaining() <= 0) {
+        this.complete();
+        return;
+      }
+      this.startTicking();
+    } else if (state.pausedRemaining !== null) {
+      this.pausedRemaining = state.pausedRemaining;
+      this.status = 'paused';
+      this.stopTicking();
+    } else {
+      this.status = 'idle';
+      this.stopTicking();
+    }
+    this.emit('change');
+  }
+
+  // Re-evaluates the clock immediately, e.g. when the app returns to the
+  // foreground after its timers were suspended.
+  sync() {
+    if (this.status !== 'running') return;
+    if (this.mode === 'countUp') {
+      this.checkTarget();
+      this.emit('tick');
+    } else if (this.getRemaining() <= 0) {
+      this.complete();
+    } else {
+      this.emit('tick');
+    }
+  }
+
+  destroy() {
+    this.stopTicking();
+    Object.values(this.listeners).forEach((set) => set.clear());
+  }
+
+  private complete() {
+    this.finalElapsed = this.getElapsed();
+    this.completedAt =
+      this.mode === 'countdown' && this.endTime !== null
+        ? Math.min(this.endTime, Date.now())
+        : Date.now();
+    this.endTime = null;
+    this.pausedRemaining = null;
+    this.startTime = null;
+    this.pausedElapsed = null;
+    this.status = 'completed';
+    this.stopTicking();
+    this.emit('change');
+    this.emit('complete');
+  }
+
+  private startTicking() {
+    this.stopTicking();
+    this.lastTickSecond = null;
+    this.interval = setInterval(() => {
+      if (this.mode === 'countUp') {
+        this.checkTarget();
+      } else if (this.getRemaining() <= 0) {
+        this.complete();
+        return;
+      }
+      // Only notify when the displayed second changes
+      const second =
+        this.mode === 'countUp'
+          ? Math.floor(this.getElapsed() / 1000)
+          : Math.ceil(this.getRemaining() / 1000);
+      if (second !== this.lastTickSecond) {
+        this.lastTickSecond = second;
+        this.emit('tick');
+      }
+    }, TICK_INTERVAL);
+  }
+
+  private checkTarget() {
+    if (
+      !this.targetReached &&
+      this.duration > 0 &&
+      this.getElapsed() >= this.duration
+    ) {
+      this.targetReached = true;
+      this.emit('target');
+    }
+  }
+
+  private clearClock() {
+    this.endTime = null;
+    this.pausedRemaining = null;
+    this.startTime = null;
+    this.pausedElapsed = null;
+    this.finalElapsed = 0;
+    this.completedAt = null;
+    this.targetReached = false;
+    this.overtime = false;
+  }
+
+  private stopTicking() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  private emit(event: TimerEvent) {
+    const snapshot = this.getSnapshot();
+    this.listeners[event].forEach((listener) => listener(snapshot));
+  }
+}
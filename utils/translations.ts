@@ -117,6 +117,60 @@ export const translations = {
     removeBackgroundMessage: 'Are you sure you want to remove your custom background?',
     removeSound: 'Remove Custom Sound',
     removeSoundMessage: 'Are you sure you want to remove your custom sound?',
+    
+    // Break Settings
+    breaks: 'Breaks',
+    breaksDesc: 'Set how long breaks last and how they end',
+    defaultBreakLength: 'Default break length',
+    minutesShort: 'min',
+    breakEndSound: 'Break end sound',
+    
+    // Goal Settings
+    dailyGoal: 'Daily Goal',
+    dailyGoalDesc: 'Set how many minutes you want to focus each day and keep your streak going',
+    dailyGoalMinutes: 'Focus goal per day',
+    streakFreeze: 'Weekly freeze day',
+    streakFreezeDesc: "Missing one day per week won't break your streak",
+    
+    // Timer Display
+    timerDisplay: 'Timer Display',
+    timerDisplayDesc: 'Choose how the remaining time is shown while you focus',
+    displayDigits: 'Digits',
+    displayBoth: 'Ring + Digits',
+    displayRing: 'Ring Only',
+    displayDisc: 'Shrinking Disc',
+    hideDigits: 'Hide Digits While Focusing',
+    hideDigitsDesc: 'Show only the visual timer during a focus session',
+    
+    // Transition Warnings
+    transitionWarnings: 'Transition Warnings',
+    transitionWarningsDesc: 'Get a heads-up before a focus session or break ends',
+    warnBefore: 'Warn before the end',
+    noWarnings: 'No warnings yet',
+    addWarning: 'Add',
+    warningFeedback: 'Play warnings as',
+    feedbackSound: 'Sound',
+    feedbackHaptic: 'Vibration',
+    feedbackBoth: 'Both',
+    
+    // Session Reflection
+    sessionReflection: 'Session Reflection',
+    sessionReflectionDesc: 'A short check-in after each completed session',
+    askReflection: 'Ask After Each Session',
+    askReflectionDesc: 'Rate your focus, mark if you finished and add a note. You can always skip it.',
+    
+    // Pre-session Check-in
+    sessionCheckIn: 'Pre-session Check-in',
+    sessionCheckInDesc: 'Note how you feel before you start focusing',
+    askCheckIn: 'Ask Before Each Session',
+    askCheckInDesc: 'Rate your energy and mood so Stats can show when you work best. You can always skip it.',
+    
+    // Leave-app Reminders
+    leaveNudges: 'Leave-app Reminders',
+    leaveNudgesDesc: 'Get a notification if you switch away during a focus session',
+    nudgeWhenAway: 'Nudge Me to Come Back',
+    nudgeWhenAwayDesc: 'Cancelled automatically when you return in time',
+    nudgeAfter: 'Remind me after',
   },
   
   es: {
@@ -237,6 +291,60 @@ export const translations = {
     removeBackgroundMessage: '¿Estás seguro de que quieres eliminar tu fondo personalizado?',
     removeSound: 'Eliminar Sonido Personalizado',
     removeSoundMessage: '¿Estás seguro de que quieres eliminar tu sonido personalizado?',
+    
+    // Break Settings
+    breaks: 'Descansos',
+    breaksDesc: 'Configura cuánto duran los descansos y cómo terminan',
+    defaultBreakLength: 'Duración predeterminada del descanso',
+    minutesShort: 'min',
+    breakEndSound: 'Sonido de fin de descanso',
+    
+    // Goal Settings
+    dailyGoal: 'Meta diaria',
+    dailyGoalDesc: 'Define cuántos minutos quieres concentrarte cada día y mantén tu racha',
+    dailyGoalMinutes: 'Meta de concentración diaria',
+    streakFreeze: 'Día de descanso semanal',
+    streakFreezeDesc: 'Fallar un día por semana no romperá tu racha',
+    
+    // Timer Display
+    timerDisplay: 'Visualización del temporizador',
+    timerDisplayDesc: 'Elige cómo se muestra el tiempo restante mientras te concentras',
+    displayDigits: 'Dígitos',
+    displayBoth: 'Anillo + dígitos',
+    displayRing: 'Solo anillo',
+    displayDisc: 'Disco decreciente',
+    hideDigits: 'Ocultar dígitos al concentrarte',
+    hideDigitsDesc: 'Muestra solo el temporizador visual durante la sesión',
+    
+    // Transition Warnings
+    transitionWarnings: 'Avisos de transición',
+    transitionWarningsDesc: 'Recibe un aviso antes de que termine una sesión o un descanso',
+    warnBefore: 'Avisar antes del final',
+    noWarnings: 'Aún no hay avisos',
+    addWarning: 'Añadir',
+    warningFeedback: 'Reproducir avisos como',
+    feedbackSound: 'Sonido',
+    feedbackHaptic: 'Vibración',
+    feedbackBoth: 'Ambos',
+    
+    // Session Reflection
+    sessionReflection: 'Reflexión de la sesión',
+    sessionReflectionDesc: 'Un breve repaso después de cada sesión completada',
+    askReflection: 'Preguntar tras cada sesión',
+    askReflectionDesc: 'Valora tu concentración, indica si terminaste y añade una nota. Siempre puedes omitirlo.',
+    
+    // Pre-session Check-in
+    sessionCheckIn: 'Chequeo previo a la sesión',
+    sessionCheckInDesc: 'Anota cómo te sientes antes de empezar a concentrarte',
+    askCheckIn: 'Preguntar antes de cada sesión',
+    askCheckInDesc: 'Valora tu energía y tu ánimo para que Estadísticas muestre cuándo trabajas mejor. Siempre puedes omitirlo.',
+    
+    // Leave-app Reminders
+    leaveNudges: 'Recordatorios al salir',
+    leaveNudgesDesc: 'Recibe una notificación si sales de la app durante una sesión',
+    nudgeWhenAway: 'Avisarme para volver',
+    nudgeWhenAwayDesc: 'Se cancela automáticamente si vuelves a tiempo',
+    nudgeAfter: 'Recordarme después de',
   },
   
   fr: {
@@ -357,6 +465,60 @@ export const translations = {
     removeBackgroundMessage: 'Êtes-vous sûr de vouloir supprimer votre arrière-plan personnalisé?',
     removeSound: 'Supprimer le Son Personnalisé',
     removeSoundMessage: 'Êtes-vous sûr de vouloir supprimer votre son personnalisé?',
+    
+    // Break Settings
+    breaks: 'Pauses',
+    breaksDesc: 'Définissez la durée des pauses et leur fin',
+    defaultBreakLength: 'Durée de pause par défaut',
+    minutesShort: 'min',
+    breakEndSound: 'Son de fin de pause',
+    
+    // Goal Settings
+    dailyGoal: 'Objectif quotidien',
+    dailyGoalDesc: 'Définissez combien de minutes vous voulez vous concentrer chaque jour et gardez votre série',
+    dailyGoalMinutes: 'Objectif de concentration par jour',
+    streakFreeze: 'Jour de pause hebdomadaire',
+    streakFreezeDesc: 'Manquer un jour par semaine ne brisera pas votre série',
+    
+    // Timer Display
+    timerDisplay: 'Affichage du minuteur',
+    timerDisplayDesc: "Choisissez comment le temps restant s'affiche pendant la concentration",
+    displayDigits: 'Chiffres',
+    displayBoth: 'Anneau + chiffres',
+    displayRing: 'Anneau seul',
+    displayDisc: 'Disque décroissant',
+    hideDigits: 'Masquer les chiffres en séance',
+    hideDigitsDesc: "N'afficher que le minuteur visuel pendant la séance",
+    
+    // Transition Warnings
+    transitionWarnings: 'Alertes de transition',
+    transitionWarningsDesc: "Soyez prévenu avant la fin d'une séance ou d'une pause",
+    warnBefore: 'Prévenir avant la fin',
+    noWarnings: "Aucune alerte pour l'instant",
+    addWarning: 'Ajouter',
+    warningFeedback: 'Jouer les alertes en',
+    feedbackSound: 'Son',
+    feedbackHaptic: 'Vibration',
+    feedbackBoth: 'Les deux',
+    
+    // Session Reflection
+    sessionReflection: 'Bilan de séance',
+    sessionReflectionDesc: 'Un court bilan après chaque séance terminée',
+    askReflection: 'Demander après chaque séance',
+    askReflectionDesc: 'Notez votre concentration, indiquez si vous avez terminé et ajoutez une note. Vous pouvez toujours passer.',
+    
+    // Pre-session Check-in
+    sessionCheckIn: 'Bilan avant la session',
+    sessionCheckInDesc: 'Notez votre état avant de commencer',
+    askCheckIn: 'Demander avant chaque session',
+    askCheckInDesc: 'Notez votre énergie et votre humeur pour que les statistiques montrent quand vous travaillez le mieux. Vous pouvez toujours passer.',
+    
+    // Leave-app Reminders
+    leaveNudges: "Rappels en quittant l'app",
+    leaveNudgesDesc: "Recevez une notification si vous quittez l'app pendant une séance",
+    nudgeWhenAway: 'Me rappeler de revenir',
+    nudgeWhenAwayDesc: 'Annulé automatiquement si vous revenez à temps',
+    nudgeAfter: 'Me rappeler après',
   },
   
   zh: {
@@ -477,6 +639,60 @@ export const translations = {
     removeBackgroundMessage: '您确定要删除您的自定义背景吗？',
     removeSound: '删除自定义声音',
     removeSoundMessage: '您确定要删除您的自定义声音吗？',
+    
+    // Break Settings
+    breaks: '休息',
+    breaksDesc: '设置休息时长以及结束方式',
+    defaultBreakLength: '默认休息时长',
+    minutesShort: '分钟',
+    breakEndSound: '休息结束声音',
+    
+    // Goal Settings
+    dailyGoal: '每日目标',
+    dailyGoalDesc: '设置每天想要专注的分钟数并保持连续记录',
+    dailyGoalMinutes: '每日专注目标',
+    streakFreeze: '每周冻结日',
+    streakFreezeDesc: '每周错过一天不会中断连续记录',
+    
+    // Timer Display
+    timerDisplay: '计时器显示',
+    timerDisplayDesc: '选择专注时剩余时间的显示方式',
+    displayDigits: '数字',
+    displayBoth: '圆环 + 数字',
+    displayRing: '仅圆环',
+    displayDisc: '缩小圆盘',
+    hideDigits: '专注时隐藏数字',
+    hideDigitsDesc: '专注期间只显示图形计时器',
+    
+    // Transition Warnings
+    transitionWarnings: '过渡提醒',
+    transitionWarningsDesc: '在专注或休息结束前收到提醒',
+    warnBefore: '结束前提醒',
+    noWarnings: '暂无提醒',
+    addWarning: '添加',
+    warningFeedback: '提醒方式',
+    feedbackSound: '声音',
+    feedbackHaptic: '振动',
+    feedbackBoth: '两者',
+    
+    // Session Reflection
+    sessionReflection: '专注回顾',
+    sessionReflectionDesc: '每次完成专注后的简短回顾',
+    askReflection: '每次专注后询问',
+    askReflectionDesc: '为专注度打分、标记是否完成并添加备注，随时可以跳过。',
+    
+    // Pre-session Check-in
+    sessionCheckIn: '专注前签到',
+    sessionCheckInDesc: '开始专注前记录你的状态',
+    askCheckIn: '每次专注前询问',
+    askCheckInDesc: '为精力和心情打分，统计页会显示你何时状态最好。随时可以跳过。',
+    
+    // Leave-app Reminders
+    leaveNudges: '离开应用提醒',
+    leaveNudgesDesc: '专注期间切换到其他应用时收到通知',
+    nudgeWhenAway: '提醒我回来',
+    nudgeWhenAwayDesc: '及时返回时会自动取消',
+    nudgeAfter: '多久后提醒',
   },
 };
 
@@ -6,3 +6,17 @@ export function vibrateOnComplete() {
     Vibration.vibrate(500);
   }
 }
+
+// Short buzz for interval cues; the halfway cue uses two pulses
+export function vibrateCue(pulses = 1) {
+  if (Platform.OS !== 'web') {
+    Vibration.vibrate(pulses > 1 ? [0, 80, 120, 80] : 80);
+  }
+}
+
+// Longer triple buzz so a pre-end warning feels different from a cue
+export function vibrateWarning() {
+  if (Platform.OS !== 'web') {
+    Vibration.vibrate([0, 200, 150, 200, 150, 200]);
+  }
+}